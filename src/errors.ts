@@ -0,0 +1,27 @@
+/**
+ * Pagination cursor (feed, search) that cannot be used;
+ * status is the HTTP status of the answer
+ */
+export abstract class CursorError extends Error {
+  abstract readonly status: 400 | 410;
+}
+
+// Malformed cursor, or issued for another sort
+export class InvalidCursorError extends CursorError {
+  readonly status = 400;
+
+  constructor(message = "Cursor inválido") {
+    super(message);
+    this.name = "InvalidCursorError";
+  }
+}
+
+// The feed snapshot the cursor points to is gone: restart from the first page
+export class SnapshotExpiredError extends CursorError {
+  readonly status = 410;
+
+  constructor(message = "O snapshot do feed expirou, recomece da primeira página") {
+    super(message);
+    this.name = "SnapshotExpiredError";
+  }
+}
@@ -1,19 +1,47 @@
 import { Hono } from "hono";
 import { cors } from "hono/cors";
+import { streamSSE } from "hono/streaming";
 import "reflect-metadata";
 import { container } from "tsyringe";
 import { logger } from "./logger";
 import { loggingMiddleware } from "./middleware/logging";
+import { adminAuthMiddleware } from "./middleware/admin-auth";
+import {
+  conditionalGetMiddleware,
+  setLastModified,
+} from "./middleware/conditional-get";
 import { FeedService } from "./services/feed.service";
-import { HackerNewsService } from "./services/hackernews.service";
+import { SourceRegistryService } from "./services/source-registry.service";
+import {
+  HackerNewsService,
+  HACKER_NEWS_LISTS,
+  isHackerNewsList,
+} from "./services/hackernews.service";
 import { SmartMixService } from "./services/smartmix.service";
 import { AnalyticsService } from "./services/analytics.service";
+import { CommentsService } from "./services/comments.service";
+import { HistoryService } from "./services/history.service";
+import { FEED_SORTS, isFeedSort } from "./services/ranking-strategy.service";
+import { RankingConfigService } from "./services/ranking-config.service";
+import { ExperimentService } from "./services/experiment.service";
+import { CalibrationService } from "./services/calibration.service";
+import { ReputationService } from "./services/reputation.service";
+import { SearchService } from "./services/search.service";
+import { FeedStreamService } from "./services/feed-stream.service";
 import {
   getServicesStatus,
   startBackgroundUpdates,
 } from "./services/status-checker";
 import { TabNewsService } from "./services/tabnews.service";
-import type { AnalyticsPeriod } from "./types";
+import { Source, type AnalyticsPeriod } from "./types";
+import { CursorError } from "./errors";
+import { parseFeedFilters } from "./utils/feed-filters";
+import { parseSearchParams } from "./utils/search";
+import {
+  SYNDICATION_CONTENT_TYPES,
+  SYNDICATION_FORMATS,
+  SYNDICATION_RENDERERS,
+} from "./utils/feed-writer";
 
 const app = new Hono();
 
@@ -34,55 +62,124 @@ app.use(
   })
 );
 
+// admin endpoints require ADMIN_TOKEN
+app.use("/api/admin/*", adminAuthMiddleware);
+
+// ETag/Last-Modified and 304s on responses that only change when the data is refreshed
+for (const path of [
+  "/api/feed",
+  ...SYNDICATION_FORMATS.map((format) => `/api/feed.${format}`),
+  "/api/news/*",
+  "/api/analytics/*",
+  "/api/services/status",
+]) {
+  app.use(path, conditionalGetMiddleware);
+}
+
 app.get("/", (c) => {
+  const registry = container.resolve(SourceRegistryService);
+
   return c.json({
     message: "TechNews API - Powered by Hono + Bun",
     version: "2.0.0",
     endpoints: {
-      tabnews: "/api/news/tabnews",
-      hackernews: "/api/news/hackernews",
-      feed: "/api/feed",
+      news: Object.fromEntries(
+        registry
+          .getEnabled()
+          .map((source) => [source.slug, `/api/news/${source.slug}`])
+      ),
+      hackernews: "/api/news/hackernews?list=top&batch=0",
+      feed: `/api/feed?sort=${FEED_SORTS.join("|")}&explain=false`,
+      feedRss: "/api/feed.rss",
+      feedAtom: "/api/feed.atom",
+      feedJson: "/api/feed.json",
+      feedStream: "/api/feed/stream",
+      search: "/api/search?q=postgres&source=hackernews&since=2025-12-01",
       comments: "/api/comments/:username/:slug",
+      hackernewsComments: "/api/comments/hackernews/:id?depth=5&limit=200",
+      item: "/api/items/:source/:id",
+      itemComments: "/api/items/:source/:id/comments?sort=top&flat=false",
+      itemHistory: "/api/items/:source/:id/history?period=7d",
+      itemRankExplain: "/api/items/:source/:id/rank-explain",
       servicesStatus: "/api/services/status",
+      rankingConfig: "/api/ranking-config",
+      experiments: {
+        click: "/api/experiments/click",
+        summary: "/api/experiments/summary?id=<experiment>",
+      },
       analytics: {
         trending: "/api/analytics/trending?period=7d",
         stats: "/api/analytics/stats",
+        calibration: "/api/analytics/calibration",
+        domains: "/api/analytics/domains?order=top&limit=20",
+        authors: "/api/analytics/authors?order=top&limit=20",
       },
     },
   });
 });
 
-// get tabnews articles
-app.get("/api/news/tabnews", async (c) => {
+// get hacker news stories from a listing: top, best, new, ask, show or job
+app.get("/api/news/hackernews", async (c) => {
+  const registry = container.resolve(SourceRegistryService);
+  if (!registry.isEnabled(Source.HackerNews)) {
+    return c.json({ error: "Fonte de notícias não encontrada" }, 404);
+  }
+
+  const list = c.req.query("list") || "top";
+  if (!isHackerNewsList(list)) {
+    return c.json(
+      {
+        error: `Invalid list "${list}". Use one of: ${HACKER_NEWS_LISTS.join(", ")}`,
+      },
+      400
+    );
+  }
+
+  const batchParam = c.req.query("batch") || "0";
+  const batch = Number(batchParam);
+  if (!Number.isInteger(batch) || batch < 0) {
+    return c.json({ error: "batch must be a non-negative integer" }, 400);
+  }
+
   try {
-    const tabNewsService = container.resolve(TabNewsService);
-    const news = await tabNewsService.fetchNews();
+    const hackerNewsService = container.resolve(HackerNewsService);
+    const news = await hackerNewsService.fetchBatch(batch, list);
     return c.json(news);
   } catch (error) {
     const logger = c.get("logger");
-    logger.error("error fetching TabNews", {
+    logger.error("error fetching Hacker News", {
       error: error instanceof Error ? error.message : String(error),
       stack: error instanceof Error ? error.stack : undefined,
+      list,
+      batch,
     });
     return c.json(
       {
         error:
-          error instanceof Error ? error.message : "Erro ao carregar TabNews",
+          error instanceof Error
+            ? error.message
+            : "Erro ao carregar Hacker News",
       },
       500
     );
   }
 });
 
-// get hacker news articles
-app.get("/api/news/hackernews", async (c) => {
+// get articles from a single news source (tabnews, devto, lobsters, ...)
+app.get("/api/news/:source", async (c) => {
+  const registry = container.resolve(SourceRegistryService);
+  const source = registry.getBySlug(c.req.param("source"));
+
+  if (!source || !registry.isEnabled(source.id)) {
+    return c.json({ error: "Fonte de notícias não encontrada" }, 404);
+  }
+
   try {
-    const hackerNewsService = container.resolve(HackerNewsService);
-    const news = await hackerNewsService.fetchNews();
+    const news = await source.fetch();
     return c.json(news);
   } catch (error) {
     const logger = c.get("logger");
-    logger.error("error fetching Hacker News", {
+    logger.error(`error fetching ${source.displayName}`, {
       error: error instanceof Error ? error.message : String(error),
       stack: error instanceof Error ? error.stack : undefined,
     });
@@ -91,14 +188,14 @@ app.get("/api/news/hackernews", async (c) => {
         error:
           error instanceof Error
             ? error.message
-            : "Erro ao carregar Hacker News",
+            : `Erro ao carregar ${source.displayName}`,
       },
       500
     );
   }
 });
 
-// Get unified feed (news from TabNews, HackerNews, and Dev.to)
+// Get unified feed (news from every enabled source)
 app.get("/api/feed", async (c) => {
   try {
     const feedService = container.resolve(FeedService);
@@ -106,18 +203,64 @@ app.get("/api/feed", async (c) => {
     // Validar limit (1-100, default 10)
     const limit = Math.max(1, Math.min(Number(c.req.query("limit")) || 10, 100));
 
-    // Pegar cursor opcional (único, para lista intercalada)
+    // Cursor opcional (opaco: snapshot do feed + offset)
     const after = c.req.query("after");
 
+    // Estratégia de ordenação: hot (default), top, new, discussed ou rising
+    const sort = c.req.query("sort") || "hot";
+    if (!isFeedSort(sort)) {
+      return c.json(
+        { error: `sort must be one of: ${FEED_SORTS.join(", ")}` },
+        400
+      );
+    }
+
+    // Filtros aplicados antes da paginação (fontes por slug)
+    const registry = container.resolve(SourceRegistryService);
+    const { filters, errors } = parseFeedFilters(
+      c.req.query(),
+      Object.fromEntries(
+        registry.getAll().map((source) => [source.slug, source.id])
+      )
+    );
+    if (!filters) {
+      return c.json({ error: "Invalid feed filters", details: errors }, 400);
+    }
+
+    // explain=true adiciona o detalhamento do hot rank a cada item
+    const explain = c.req.query("explain") === "true";
+
+    // Variante do experimento em andamento (estável por X-Client-Id)
+    const experimentService = container.resolve(ExperimentService);
+    const assignment = experimentService.assign(c.req.header("x-client-id"));
+
     // Buscar feed intercalado
-    const feed = await feedService.fetchFeed(limit, after);
+    const feed = await feedService.fetchFeed(limit, after, sort, {
+      explain,
+      assignment,
+      filters,
+    });
 
     // Headers
-    c.header("Cache-Control", "public, max-age=300");
     c.header("X-AI-Processed", "true");
+    if (assignment) {
+      c.header("Cache-Control", "private, max-age=300");
+      c.header("Vary", "X-Client-Id");
+      c.header(
+        "X-Experiment-Variant",
+        `${assignment.experimentId}:${assignment.variant}`
+      );
+    } else {
+      c.header("Cache-Control", "public, max-age=300");
+    }
+    setLastModified(c, feed.generatedAt);
 
     return c.json(feed);
   } catch (error) {
+    if (error instanceof CursorError) {
+      return c.json({ error: error.message }, error.status);
+    }
+
     const logger = c.get("logger");
     logger.error("error fetching unified feed", {
       error: error instanceof Error ? error.message : String(error),
@@ -132,6 +275,231 @@ app.get("/api/feed", async (c) => {
   }
 });
 
+// Live changes of the top of the hot feed (Server-Sent Events)
+app.get("/api/feed/stream", (c) => {
+  const feedStream = container.resolve(FeedStreamService);
+
+  // EventSource sends Last-Event-ID when it reconnects
+  const connection = feedStream.connect(c.req.header("last-event-id"));
+  if (!connection) {
+    c.header("Retry-After", "30");
+    return c.json(
+      {
+        error:
+          "Limite de conexões do stream atingido, tente novamente em instantes",
+      },
+      503
+    );
+  }
+
+  return streamSSE(
+    c,
+    async (stream) => {
+      stream.onAbort(() => connection.close());
+
+      try {
+        // Reconnection delay for EventSource
+        await stream.write("retry: 5000\n\n");
+
+        while (!connection.closed) {
+          const events = await connection.next(
+            feedStream.HEARTBEAT_INTERVAL_MS
+          );
+          if (events.length === 0) {
+            // Keeps proxies from closing an idle connection
+            await stream.write(": heartbeat\n\n");
+            continue;
+          }
+
+          for (const event of events) {
+            await stream.writeSSE({
+              id: event.id,
+              event: event.type,
+              data: JSON.stringify(event.data),
+            });
+          }
+        }
+      } finally {
+        connection.close();
+      }
+    },
+    async (error) => {
+      const logger = c.get("logger");
+      logger.error("error streaming feed", {
+        error: error.message,
+        stack: error.stack,
+      });
+    }
+  );
+});
+
+// Same feed as RSS 2.0, Atom or JSON Feed (/api/feed.rss, /api/feed.atom, /api/feed.json)
+for (const format of SYNDICATION_FORMATS) {
+  app.get(`/api/feed.${format}`, async (c) => {
+    try {
+      const feedService = container.resolve(FeedService);
+
+      // Validar limit (1-100, default 30)
+      const limit = Math.max(
+        1,
+        Math.min(Number(c.req.query("limit")) || 30, 100)
+      );
+      const after = c.req.query("after");
+
+      const sort = c.req.query("sort") || "hot";
+      if (!isFeedSort(sort)) {
+        return c.json(
+          { error: `sort must be one of: ${FEED_SORTS.join(", ")}` },
+          400
+        );
+      }
+
+      const registry = container.resolve(SourceRegistryService);
+      const { filters, errors } = parseFeedFilters(
+        c.req.query(),
+        Object.fromEntries(
+          registry.getAll().map((source) => [source.slug, source.id])
+        )
+      );
+      if (!filters) {
+        return c.json({ error: "Invalid feed filters", details: errors }, 400);
+      }
+
+      // Feed readers are not part of experiments, so the output is cacheable
+      const feed = await feedService.fetchFeed(limit, after, sort, { filters });
+
+      let nextUrl: string | null = null;
+      if (feed.nextCursor) {
+        const next = new URL(c.req.url);
+        next.searchParams.set("after", feed.nextCursor);
+        nextUrl = next.toString();
+      }
+
+      const body = SYNDICATION_RENDERERS[format](feed.items, {
+        title: "TechNews",
+        description: "Notícias de tecnologia curadas de várias fontes",
+        homeUrl: "https://news.andreello.dev.br",
+        feedUrl: c.req.url,
+        nextUrl,
+      });
+
+      c.header("Content-Type", SYNDICATION_CONTENT_TYPES[format]);
+      c.header("Cache-Control", "public, max-age=300");
+      setLastModified(c, feed.generatedAt);
+
+      return c.body(body);
+    } catch (error) {
+      if (error instanceof CursorError) {
+        return c.json({ error: error.message }, error.status);
+      }
+
+      const logger = c.get("logger");
+      logger.error("error rendering feed", {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+        format,
+      });
+      return c.json(
+        {
+          error: error instanceof Error ? error.message : "Failed to load feed",
+        },
+        500
+      );
+    }
+  });
+}
+
+// Full-text search over the enriched news (relevance + recency)
+app.get("/api/search", async (c) => {
+  try {
+    const registry = container.resolve(SourceRegistryService);
+    const { params, errors } = parseSearchParams(
+      c.req.query(),
+      Object.fromEntries(
+        registry.getAll().map((source) => [source.slug, source.id])
+      )
+    );
+    if (!params) {
+      return c.json({ error: "Invalid search", details: errors }, 400);
+    }
+
+    // Validar limit (1-50, default 20)
+    const limit = Math.max(1, Math.min(Number(c.req.query("limit")) || 20, 50));
+
+    const searchService = container.resolve(SearchService);
+    const results = await searchService.search(
+      params,
+      limit,
+      c.req.query("after")
+    );
+
+    c.header("Cache-Control", "public, max-age=300");
+
+    return c.json(results);
+  } catch (error) {
+    if (error instanceof CursorError) {
+      return c.json({ error: error.message }, error.status);
+    }
+
+    const logger = c.get("logger");
+    logger.error("error searching news", {
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+    return c.json(
+      {
+        error: error instanceof Error ? error.message : "Failed to search news",
+      },
+      500
+    );
+  }
+});
+
+// Get the comment tree of a Hacker News story
+app.get("/api/comments/hackernews/:id", async (c) => {
+  const id = Number(c.req.param("id"));
+  if (!Number.isInteger(id) || id <= 0) {
+    return c.json({ error: "id must be a Hacker News item id" }, 400);
+  }
+
+  // depth: 1-10 levels (default 5), limit: 1-500 comments (default 200)
+  const maxDepth = Math.max(1, Math.min(Number(c.req.query("depth")) || 5, 10));
+  const maxComments = Math.max(
+    1,
+    Math.min(Number(c.req.query("limit")) || 200, 500)
+  );
+
+  try {
+    const hackerNewsService = container.resolve(HackerNewsService);
+    const comments = await hackerNewsService.fetchComments(id, {
+      maxDepth,
+      maxComments,
+    });
+
+    if (!comments) {
+      return c.json({ error: "Item do Hacker News não encontrado" }, 404);
+    }
+
+    return c.json(comments);
+  } catch (error) {
+    const logger = c.get("logger");
+    logger.error("error fetching Hacker News comments", {
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+      id,
+    });
+    return c.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Erro ao carregar comentários",
+      },
+      500
+    );
+  }
+});
+
 // Get comments for a specific TabNews article
 app.get("/api/comments/:username/:slug", async (c) => {
   try {
@@ -163,9 +531,188 @@ app.get("/api/comments/:username/:slug", async (c) => {
   }
 });
 
+// Get an item with its enrichment, ranking data and fetch times
+app.get("/api/items/:source/:id", async (c) => {
+  const registry = container.resolve(SourceRegistryService);
+  const source = registry.getBySlug(c.req.param("source"));
+
+  if (!source) {
+    return c.json({ error: "Fonte de notícias não encontrada" }, 404);
+  }
+  const id = c.req.param("id");
+
+  try {
+    const feedService = container.resolve(FeedService);
+    const detail = await feedService.getItemDetail(source.id, id);
+
+    if (!detail) {
+      return c.json({ error: "Item não encontrado" }, 404);
+    }
+
+    c.header("Cache-Control", "public, max-age=60");
+
+    return c.json(detail);
+  } catch (error) {
+    const logger = c.get("logger");
+    logger.error("error fetching item", {
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+      source: source.slug,
+      id,
+    });
+    return c.json(
+      {
+        error: error instanceof Error ? error.message : "Erro ao buscar item",
+      },
+      500
+    );
+  }
+});
+
+// Get the comments of any feed item, normalized across sources
+app.get("/api/items/:source/:id/comments", async (c) => {
+  const registry = container.resolve(SourceRegistryService);
+  const source = registry.getBySlug(c.req.param("source"));
+
+  if (!source || !registry.isEnabled(source.id)) {
+    return c.json({ error: "Fonte de notícias não encontrada" }, 404);
+  }
+  if (!source.fetchComments) {
+    return c.json(
+      { error: `${source.displayName} não possui comentários` },
+      404
+    );
+  }
+
+  const sort = c.req.query("sort") || "top";
+  if (sort !== "top" && sort !== "new") {
+    return c.json({ error: "sort must be one of: top, new" }, 400);
+  }
+  const flat = c.req.query("flat") === "true";
+  const id = c.req.param("id");
+
+  try {
+    const commentsService = container.resolve(CommentsService);
+    const comments = await commentsService.fetchComments(source, id, {
+      sort,
+      flat,
+    });
+
+    if (!comments) {
+      return c.json({ error: "Item não encontrado" }, 404);
+    }
+
+    return c.json(comments);
+  } catch (error) {
+    const logger = c.get("logger");
+    logger.error("error fetching item comments", {
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+      source: source.slug,
+      id,
+    });
+    return c.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Erro ao carregar comentários",
+      },
+      500
+    );
+  }
+});
+
+// Get the breakdown of a feed item's hot rank
+app.get("/api/items/:source/:id/rank-explain", async (c) => {
+  const registry = container.resolve(SourceRegistryService);
+  const source = registry.getBySlug(c.req.param("source"));
+
+  if (!source) {
+    return c.json({ error: "Fonte de notícias não encontrada" }, 404);
+  }
+  const id = c.req.param("id");
+
+  try {
+    const feedService = container.resolve(FeedService);
+    const explanation = await feedService.explainItem(source.id, id);
+
+    if (!explanation) {
+      return c.json({ error: "Item não encontrado" }, 404);
+    }
+
+    return c.json(explanation);
+  } catch (error) {
+    const logger = c.get("logger");
+    logger.error("error explaining item rank", {
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+      source: source.slug,
+      id,
+    });
+    return c.json(
+      {
+        error:
+          error instanceof Error ? error.message : "Erro ao explicar ranking",
+      },
+      500
+    );
+  }
+});
+
+// Get the score/comment history of a feed item
+app.get("/api/items/:source/:id/history", async (c) => {
+  const registry = container.resolve(SourceRegistryService);
+  const source = registry.getBySlug(c.req.param("source"));
+
+  if (!source) {
+    return c.json({ error: "Fonte de notícias não encontrada" }, 404);
+  }
+
+  const periodParam = c.req.query("period") || "7d";
+  const validPeriods = ["24h", "7d", "30d"];
+  if (!validPeriods.includes(periodParam)) {
+    return c.json({ error: "period must be one of: 24h, 7d, 30d" }, 400);
+  }
+  const id = c.req.param("id");
+
+  try {
+    const historyService = container.resolve(HistoryService);
+    const history = await historyService.getHistory(
+      source.id,
+      id,
+      periodParam as AnalyticsPeriod
+    );
+
+    if (history.snapshots.length === 0) {
+      return c.json({ error: "Histórico não encontrado para este item" }, 404);
+    }
+
+    c.header("Cache-Control", "public, max-age=300");
+
+    return c.json(history);
+  } catch (error) {
+    const logger = c.get("logger");
+    logger.error("error fetching item history", {
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+      source: source.slug,
+      id,
+    });
+    return c.json(
+      {
+        error:
+          error instanceof Error ? error.message : "Erro ao carregar histórico",
+      },
+      500
+    );
+  }
+});
+
 app.get("/api/services/status", async (c) => {
   try {
     const status = await getServicesStatus();
+    setLastModified(c, status.lastUpdate);
     return c.json(status);
   } catch (error) {
     const logger = c.get("logger");
@@ -195,6 +742,7 @@ app.get("/api/analytics/trending", async (c) => {
     const trending = await analyticsService.getTrendingTopics(period);
 
     c.header("Cache-Control", "public, max-age=900");
+    setLastModified(c, trending.generatedAt);
 
     return c.json(trending);
   } catch (error) {
@@ -216,18 +764,12 @@ app.get("/api/analytics/stats", async (c) => {
   try {
     const analyticsService = container.resolve(AnalyticsService);
 
-    const [warehouseStats, processingStats] = await Promise.all([
-      analyticsService.getWarehouseStats(),
-      analyticsService.getProcessingStats(new Date(Date.now() - 24 * 60 * 60 * 1000)),
-    ]);
+    const stats = await analyticsService.getStats();
 
     c.header("Cache-Control", "public, max-age=300");
+    setLastModified(c, stats.generatedAt);
 
-    return c.json({
-      warehouse: warehouseStats,
-      processing: processingStats,
-      generatedAt: new Date().toISOString(),
-    });
+    return c.json(stats);
   } catch (error) {
     const logger = c.get("logger");
     logger.error("error fetching analytics stats", {
@@ -243,19 +785,219 @@ app.get("/api/analytics/stats", async (c) => {
   }
 });
 
+// Get the per-source engagement percentiles used by the ranking
+app.get("/api/analytics/calibration", (c) => {
+  const calibrationService = container.resolve(CalibrationService);
+
+  const calibration = calibrationService.getCalibration();
+
+  c.header("Cache-Control", "public, max-age=300");
+  setLastModified(c, calibration.tables.map((table) => table.computedAt));
+
+  return c.json(calibration);
+});
+
+// Domains by reputation (top = best track record, bottom = worst)
+app.get("/api/analytics/domains", (c) => {
+  const reputationService = container.resolve(ReputationService);
+
+  const order = c.req.query("order") === "bottom" ? "bottom" : "top";
+  const limit = Math.max(1, Math.min(Number(c.req.query("limit")) || 20, 100));
+
+  const leaderboard = reputationService.getLeaderboard("domain", order, limit);
+
+  c.header("Cache-Control", "public, max-age=900");
+  setLastModified(c, leaderboard.entries.map((entry) => entry.computedAt));
+
+  return c.json(leaderboard);
+});
+
+// Authors by reputation (top = best track record, bottom = worst)
+app.get("/api/analytics/authors", (c) => {
+  const reputationService = container.resolve(ReputationService);
+
+  const order = c.req.query("order") === "bottom" ? "bottom" : "top";
+  const limit = Math.max(1, Math.min(Number(c.req.query("limit")) || 20, 100));
+
+  const leaderboard = reputationService.getLeaderboard("author", order, limit);
+
+  c.header("Cache-Control", "public, max-age=900");
+  setLastModified(c, leaderboard.entries.map((entry) => entry.computedAt));
+
+  return c.json(leaderboard);
+});
+
+// Get the ranking weights and tech filter thresholds in use
+app.get("/api/ranking-config", (c) => {
+  const rankingConfig = container.resolve(RankingConfigService);
+  return c.json(rankingConfig.get());
+});
+
+// Replace the ranking config (admin only, invalidates the cached mix)
+app.put("/api/admin/ranking-config", async (c) => {
+  let body: unknown;
+  try {
+    body = await c.req.json();
+  } catch {
+    return c.json({ error: "Body must be valid JSON" }, 400);
+  }
+
+  try {
+    const rankingConfig = container.resolve(RankingConfigService);
+    const { config, errors, storage } = await rankingConfig.update(body);
+
+    if (!config) {
+      return c.json({ error: "Invalid ranking config", details: errors }, 400);
+    }
+
+    // Without MongoDB or RANKING_CONFIG_FILE other instances keep their config
+    if (storage === "memory") {
+      return c.json({
+        ...config,
+        warning:
+          "Ranking config not persisted: only the instance that handled this request was updated",
+      });
+    }
+
+    return c.json(config);
+  } catch (error) {
+    const logger = c.get("logger");
+    logger.error("error updating ranking config", {
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+    return c.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Erro ao atualizar configuração de ranking",
+      },
+      500
+    );
+  }
+});
+
+// Record a click of a client in the running experiment
+app.post("/api/experiments/click", async (c) => {
+  const clientId = c.req.header("x-client-id");
+  if (!clientId) {
+    return c.json({ error: "X-Client-Id header is required" }, 400);
+  }
+
+  let body: unknown;
+  try {
+    body = await c.req.json();
+  } catch {
+    return c.json({ error: "Body must be valid JSON" }, 400);
+  }
+
+  // The clicked item, as returned by /api/feed
+  const { source, id } = (body ?? {}) as { source?: unknown; id?: unknown };
+  if (
+    !Object.values(Source).includes(source as Source) ||
+    typeof id !== "string" ||
+    !id
+  ) {
+    return c.json(
+      {
+        error: `Body must have the clicked item's id and source (${Object.values(
+          Source
+        ).join(", ")})`,
+      },
+      400
+    );
+  }
+
+  const experimentService = container.resolve(ExperimentService);
+  const assignment = experimentService.assign(clientId);
+  if (!assignment) {
+    return c.json({ error: "Nenhum experimento em andamento" }, 404);
+  }
+
+  try {
+    const variant = await experimentService.recordClick(assignment, {
+      source: source as Source,
+      id,
+    });
+    return c.json({
+      experimentId: assignment.experimentId,
+      variant: variant ?? assignment.variant,
+      counted: variant !== null,
+    });
+  } catch (error) {
+    const logger = c.get("logger");
+    logger.error("error recording experiment click", {
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+      experimentId: assignment.experimentId,
+    });
+    return c.json(
+      {
+        error: error instanceof Error ? error.message : "Failed to record click",
+      },
+      500
+    );
+  }
+});
+
+// Compare the click-through rate of each variant of an experiment
+app.get("/api/experiments/summary", async (c) => {
+  try {
+    const experimentService = container.resolve(ExperimentService);
+    const summary = await experimentService.getSummary(c.req.query("id"));
+
+    if (!summary) {
+      return c.json({ error: "Nenhum experimento em andamento" }, 404);
+    }
+
+    return c.json(summary);
+  } catch (error) {
+    const logger = c.get("logger");
+    logger.error("error fetching experiment summary", {
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+    return c.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Failed to load experiment summary",
+      },
+      500
+    );
+  }
+});
+
 app.notFound((c) => {
   return c.json(
     {
       error: "Endpoint não encontrado",
       availableEndpoints: [
         "GET /",
-        "GET /api/news/tabnews",
-        "GET /api/news/hackernews",
-        "GET /api/feed",
+        "GET /api/news/hackernews?list=top|best|new|ask|show|job&batch=0",
+        "GET /api/news/:source",
+        `GET /api/feed?sort=${FEED_SORTS.join("|")}&explain=true`,
+        "GET /api/feed.rss|.atom|.json",
+        "GET /api/feed/stream",
+        "GET /api/search?q=<query>",
         "GET /api/comments/:username/:slug",
+        "GET /api/comments/hackernews/:id",
+        "GET /api/items/:source/:id",
+        "GET /api/items/:source/:id/comments?sort=top|new&flat=true",
+        "GET /api/items/:source/:id/history?period=24h|7d|30d",
+        "GET /api/items/:source/:id/rank-explain",
         "GET /api/services/status",
+        "GET /api/ranking-config",
+        "PUT /api/admin/ranking-config",
+        "POST /api/experiments/click",
+        "GET /api/experiments/summary?id=<experiment>",
         "GET /api/analytics/trending?period=7d",
         "GET /api/analytics/stats",
+        "GET /api/analytics/calibration",
+        "GET /api/analytics/domains?order=top&limit=20",
+        "GET /api/analytics/authors?order=top&limit=20",
       ],
     },
     404
@@ -284,6 +1026,18 @@ const port = process.env.PORT || 8080;
 // Start background task for service status monitoring
 startBackgroundUpdates();
 
+// Downsample item history snapshots periodically
+container.resolve(HistoryService).startMaintenance();
+
+// Pick up ranking config changes (admin updates from other instances)
+container.resolve(RankingConfigService).startHotReload();
+
+// Rebuild the per-source score percentiles periodically
+container.resolve(CalibrationService).startSchedule();
+
+// Rebuild the domain/author reputation periodically
+container.resolve(ReputationService).startSchedule();
+
 logger.info(`techNews API running on http://localhost:${port}`);
 
 export default {
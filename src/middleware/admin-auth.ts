@@ -0,0 +1,31 @@
+import type { Context, Next } from "hono";
+import { createHash, timingSafeEqual } from "crypto";
+
+const digest = (value: string) => createHash("sha256").update(value).digest();
+
+/**
+ * Middleware de autenticação dos endpoints administrativos
+ * Exige o header "Authorization: Bearer <ADMIN_TOKEN>"
+ * Sem ADMIN_TOKEN configurado, os endpoints ficam desabilitados
+ */
+export const adminAuthMiddleware = async (c: Context, next: Next) => {
+  const adminToken = process.env.ADMIN_TOKEN;
+
+  if (!adminToken) {
+    return c.json(
+      { error: "Admin API desabilitada (ADMIN_TOKEN não configurado)" },
+      503
+    );
+  }
+
+  const header = c.req.header("authorization") || "";
+  const token = header.startsWith("Bearer ") ? header.slice(7) : "";
+
+  // Compara os digests para não vazar o tamanho/conteúdo do token pelo tempo
+  if (!token || !timingSafeEqual(digest(token), digest(adminToken))) {
+    c.header("WWW-Authenticate", "Bearer");
+    return c.json({ error: "Não autorizado" }, 401);
+  }
+
+  await next();
+};
@@ -0,0 +1,108 @@
+import { describe, it, expect } from "vitest";
+import { Hono } from "hono";
+import { conditionalGetMiddleware, setLastModified } from "./conditional-get";
+
+function createApp() {
+  const app = new Hono();
+  let version = 1;
+
+  app.use("/api/*", conditionalGetMiddleware);
+  app.get("/api/feed", (c) => {
+    c.header("Cache-Control", "public, max-age=300");
+    return c.json({ items: [version] });
+  });
+  app.get("/api/dated", (c) => {
+    setLastModified(c, "2025-12-15T10:00:00.000Z");
+    return c.json({ ok: true });
+  });
+  app.get("/api/missing", (c) => c.json({ error: "not found" }, 404));
+
+  return { app, bump: () => version++ };
+}
+
+describe("conditionalGetMiddleware", () => {
+  it("should answer 304 while the content is unchanged", async () => {
+    const { app, bump } = createApp();
+
+    const first = await app.request("/api/feed");
+    const etag = first.headers.get("etag")!;
+    expect(first.status).toBe(200);
+    expect(etag).toMatch(/^"[\w-]+"$/);
+    expect(first.headers.get("last-modified")).toBeNull();
+
+    const cached = await app.request("/api/feed", {
+      headers: { "If-None-Match": `W/${etag}` },
+    });
+    expect(cached.status).toBe(304);
+    expect(await cached.text()).toBe("");
+    expect(cached.headers.get("etag")).toBe(etag);
+    expect(cached.headers.get("cache-control")).toBe("public, max-age=300");
+
+    bump();
+    const changed = await app.request("/api/feed", {
+      headers: { "If-None-Match": etag },
+    });
+    expect(changed.status).toBe(200);
+    expect(changed.headers.get("etag")).not.toBe(etag);
+  });
+
+  it("should honour If-Modified-Since only without If-None-Match", async () => {
+    const { app } = createApp();
+
+    const notModified = await app.request("/api/dated", {
+      headers: { "If-Modified-Since": "Mon, 15 Dec 2025 10:00:00 GMT" },
+    });
+    expect(notModified.status).toBe(304);
+
+    const modified = await app.request("/api/dated", {
+      headers: { "If-Modified-Since": "Mon, 15 Dec 2025 09:59:59 GMT" },
+    });
+    expect(modified.status).toBe(200);
+
+    const etagWins = await app.request("/api/dated", {
+      headers: {
+        "If-None-Match": '"other"',
+        "If-Modified-Since": "Mon, 15 Dec 2025 10:00:00 GMT",
+      },
+    });
+    expect(etagWins.status).toBe(200);
+  });
+
+  it("should set Last-Modified to the latest generation time", async () => {
+    const app = new Hono();
+    app.use("/api/*", conditionalGetMiddleware);
+    app.get("/api/tables", (c) => {
+      setLastModified(c, ["2025-12-15T09:00:00.000Z", "2025-12-15T10:00:00.000Z", "?"]);
+      return c.json({ ok: true });
+    });
+    app.get("/api/empty", (c) => {
+      setLastModified(c, []);
+      return c.json({ ok: true });
+    });
+
+    const response = await app.request("/api/tables");
+    expect(response.headers.get("last-modified")).toBe("Mon, 15 Dec 2025 10:00:00 GMT");
+
+    const empty = await app.request("/api/empty");
+    expect(empty.headers.get("last-modified")).toBeNull();
+  });
+
+  it("should ignore If-Modified-Since when the route has no Last-Modified", async () => {
+    const { app } = createApp();
+
+    const response = await app.request("/api/feed", {
+      headers: { "If-Modified-Since": new Date().toUTCString() },
+    });
+    expect(response.status).toBe(200);
+  });
+
+  it("should leave error responses alone", async () => {
+    const { app } = createApp();
+
+    const response = await app.request("/api/missing", {
+      headers: { "If-None-Match": "*" },
+    });
+    expect(response.status).toBe(404);
+    expect(response.headers.get("etag")).toBeNull();
+  });
+});
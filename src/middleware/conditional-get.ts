@@ -0,0 +1,81 @@
+import type { Context, Next } from "hono";
+import { createHash } from "crypto";
+
+/**
+ * Define o Last-Modified a partir de quando os dados da resposta foram gerados
+ * (build do mix, computedAt...), não de quando a requisição foi atendida.
+ * Com várias datas vale a mais recente; sem nenhuma o header não é definido.
+ */
+export function setLastModified(
+  c: Context,
+  generatedAt: string | string[] | null | undefined
+): void {
+  const times = [generatedAt ?? []]
+    .flat()
+    .map((date) => Date.parse(date))
+    .filter((time) => !Number.isNaN(time));
+  if (times.length === 0) return;
+  c.header("Last-Modified", new Date(Math.max(...times)).toUTCString());
+}
+
+// Comparação fraca (W/"x" equivale a "x"), como exige If-None-Match
+function matchesEtag(header: string, etag: string): boolean {
+  const opaque = (tag: string) => tag.trim().replace(/^W\//, "");
+  return (
+    header.trim() === "*" ||
+    header.split(",").some((tag) => opaque(tag) === opaque(etag))
+  );
+}
+
+function isNotModified(
+  c: Context,
+  etag: string,
+  lastModified: string | null
+): boolean {
+  const ifNoneMatch = c.req.header("if-none-match");
+  if (ifNoneMatch) return matchesEtag(ifNoneMatch, etag);
+
+  // If-Modified-Since só vale sem If-None-Match
+  const ifModifiedSince = Date.parse(c.req.header("if-modified-since") ?? "");
+  return (
+    lastModified !== null &&
+    !Number.isNaN(ifModifiedSince) &&
+    Date.parse(lastModified) <= ifModifiedSince
+  );
+}
+
+/**
+ * Middleware de GET condicional
+ * Gera o ETag a partir do conteúdo da resposta (a menos que a rota defina um)
+ * e responde 304 a If-None-Match/If-Modified-Since. O Last-Modified só existe
+ * quando a rota o define (setLastModified); sem ele If-Modified-Since é ignorado.
+ */
+export const conditionalGetMiddleware = async (c: Context, next: Next) => {
+  await next();
+
+  if (c.req.method !== "GET" || c.res.status !== 200 || !c.res.body) return;
+
+  // Streams (SSE) não têm um conteúdo final para comparar
+  if (c.res.headers.get("content-type")?.startsWith("text/event-stream")) {
+    return;
+  }
+
+  let etag = c.res.headers.get("etag");
+  if (!etag) {
+    const body = await c.res.clone().arrayBuffer();
+    etag = `"${createHash("sha1")
+      .update(new Uint8Array(body))
+      .digest("base64url")}"`;
+    c.res.headers.set("ETag", etag);
+  }
+
+  if (!isNotModified(c, etag, c.res.headers.get("last-modified"))) return;
+
+  // Mantém ETag, Cache-Control, Vary, CORS...; sem os headers do corpo
+  const headers = new Headers(c.res.headers);
+  headers.delete("content-type");
+  headers.delete("content-length");
+  // Atribuído direto em c.res o Hono copiaria os headers da resposta original
+  c.res = undefined;
+  c.res = new Response(null, { status: 304, headers });
+};
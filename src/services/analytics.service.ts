@@ -2,12 +2,15 @@ import { inject, singleton } from "tsyringe";
 import { LoggerService } from "./logger.service";
 import { DataWarehouseService } from "./data-warehouse.service";
 import { ProcessingLogsService } from "./processing-logs.service";
+import { SourceRegistryService } from "./source-registry.service";
+import { CacheService } from "./cache.service";
+import { CacheKey } from "../types";
 import type {
   AnalyticsPeriod,
   AnalyticsResponse,
+  AnalyticsStats,
   TrendingTopic,
   SourceStats,
-  Source,
   WarehouseStats,
 } from "../types";
 
@@ -16,10 +19,20 @@ export class AnalyticsService {
   constructor(
     @inject(LoggerService) private logger: LoggerService,
     @inject(DataWarehouseService) private warehouse: DataWarehouseService,
-    @inject(ProcessingLogsService) private processingLogs: ProcessingLogsService
+    @inject(ProcessingLogsService) private processingLogs: ProcessingLogsService,
+    @inject(SourceRegistryService) private sourceRegistry: SourceRegistryService,
+    @inject(CacheService) private cacheService: CacheService
   ) {}
 
+  /**
+   * Trending topics of the period, cached so generatedAt (and the ETag)
+   * only change when they are recomputed
+   */
   async getTrendingTopics(period: AnalyticsPeriod = "7d"): Promise<AnalyticsResponse> {
+    const cacheKey = `${CacheKey.Analytics}:trending:${period}`;
+    const cached = await this.cacheService.get<AnalyticsResponse>(cacheKey);
+    if (cached) return cached;
+
     const startTime = Date.now();
     this.logger.info(`Fetching trending topics for period: ${period}`);
 
@@ -40,6 +53,7 @@ export class AnalyticsService {
         trending: mergedTrending,
         sourceStats,
         totalProcessed: stats.rankedCount,
+        totalStories: stats.storyCount,
       };
 
       this.logger.info(`Trending topics fetched in ${Date.now() - startTime}ms`, {
@@ -47,6 +61,7 @@ export class AnalyticsService {
         period,
       });
 
+      await this.cacheService.set(cacheKey, response);
       return response;
     } catch (error) {
       this.logger.error("Error fetching trending topics", { error, period });
@@ -58,7 +73,7 @@ export class AnalyticsService {
     const periodMs = this.getPeriodMs(period);
     const since = new Date(Date.now() - periodMs);
 
-    const sources: Source[] = ["TabNews", "HackerNews", "DevTo", "Lobsters"] as Source[];
+    const sources = this.sourceRegistry.getAll().map((source) => source.id);
     const stats: SourceStats[] = [];
 
     for (const source of sources) {
@@ -97,12 +112,31 @@ export class AnalyticsService {
     return this.warehouse.getWarehouseStats();
   }
 
-  async getProcessingStats(since: Date): Promise<{
-    fetch: { total: number; successful: number; failed: number; avgDuration: number };
-    enrich: { total: number; successful: number; failed: number; avgDuration: number };
-    rank: { total: number; successful: number; failed: number; avgDuration: number };
-    mix: { total: number; successful: number; failed: number; avgDuration: number };
-  }> {
+  /**
+   * Warehouse counts and processing stats of the last 24h (cached like the trending topics)
+   */
+  async getStats(): Promise<AnalyticsStats> {
+    const cacheKey = `${CacheKey.Analytics}:stats`;
+    const cached = await this.cacheService.get<AnalyticsStats>(cacheKey);
+    if (cached) return cached;
+
+    const [warehouse, processing] = await Promise.all([
+      this.getWarehouseStats(),
+      this.getProcessingStats(new Date(Date.now() - 24 * 60 * 60 * 1000)),
+    ]);
+    const stats: AnalyticsStats = {
+      warehouse,
+      processing,
+      generatedAt: new Date().toISOString(),
+    };
+
+    await this.cacheService.set(cacheKey, stats);
+    return stats;
+  }
+
+  async getProcessingStats(
+    since: Date
+  ): Promise<AnalyticsStats["processing"]> {
     const [fetch, enrich, rank, mix] = await Promise.all([
       this.processingLogs.getStepStats("fetch", since),
       this.processingLogs.getStepStats("enrich", since),
@@ -127,6 +161,7 @@ export class AnalyticsService {
       const existing = merged.get(topic.keyword);
       if (existing) {
         existing.count += topic.count;
+        existing.storyCount = Math.max(existing.storyCount, topic.storyCount);
         existing.avgScore = Math.round((existing.avgScore + topic.avgScore) / 2);
         existing.sources = [...new Set([...existing.sources, ...topic.sources])];
         existing.topArticles = [...existing.topArticles, ...topic.topArticles]
@@ -138,7 +173,12 @@ export class AnalyticsService {
     }
 
     return [...merged.values()]
-      .sort((a, b) => b.count - a.count || b.avgScore - a.avgScore)
+      .sort(
+        (a, b) =>
+          b.storyCount - a.storyCount ||
+          b.count - a.count ||
+          b.avgScore - a.avgScore
+      )
       .slice(0, 20);
   }
 
@@ -0,0 +1,128 @@
+import { inject, singleton } from "tsyringe";
+import { DataWarehouseService } from "./data-warehouse.service";
+import { RankingConfigService } from "./ranking-config.service";
+import { LoggerService } from "./logger.service";
+import { ScheduledRecompute } from "./scheduled-recompute";
+import { buildPercentileTable, percentileOf } from "../utils/calibration";
+import {
+  Source,
+  type CalibrationTable,
+  type RankingWeights,
+  type ScoreCalibration,
+} from "../types";
+
+/**
+ * Per-source engagement percentiles, built from the recently ranked items
+ * (ranked_news) so a TabNews 14 can be compared with an HN 600 by how it
+ * does on its own source. Recomputed periodically and stored in
+ * score_calibration, so a restart starts with the last tables.
+ */
+@singleton()
+export class CalibrationService {
+  private tables: ScheduledRecompute<Map<Source, CalibrationTable>>;
+
+  constructor(
+    @inject(DataWarehouseService) private warehouse: DataWarehouseService,
+    @inject(RankingConfigService) private rankingConfig: RankingConfigService,
+    @inject(LoggerService) private logger: LoggerService
+  ) {
+    this.tables = new ScheduledRecompute({
+      name: "score calibration",
+      windowDays: () => this.rankingConfig.get().calibration.windowDays,
+      compute: (since) => this.buildTables(since),
+      loadStored: async () => {
+        const stored = await this.warehouse.getCalibrationTables();
+        return stored.length > 0
+          ? new Map(stored.map((table) => [table.source, table]))
+          : null;
+      },
+      logger,
+    });
+  }
+
+  /**
+   * Engagement percentile (0-1) of an item within its source:
+   * score and comment percentiles, weighted like the engagement
+   * @returns null when calibration is off or the source has too few samples
+   */
+  engagementPercentile(
+    source: Source,
+    score: number,
+    comments: number,
+    weights: RankingWeights
+  ): number | null {
+    const { enabled, minSamples } = this.rankingConfig.get().calibration;
+    const table = this.tables.get()?.get(source);
+    if (!enabled || !table || table.sampleSize < minSamples) return null;
+
+    const totalWeight = weights.likeWeight + weights.commentWeight;
+    const scorePercentile = percentileOf(score, table.score);
+    const commentPercentile = percentileOf(comments, table.comments);
+    if (totalWeight === 0) return (scorePercentile + commentPercentile) / 2;
+
+    return (
+      (scorePercentile * weights.likeWeight +
+        commentPercentile * weights.commentWeight) /
+      totalWeight
+    );
+  }
+
+  getCalibration(): ScoreCalibration {
+    return {
+      ...this.rankingConfig.get().calibration,
+      tables: [...(this.tables.get()?.values() ?? [])],
+    };
+  }
+
+  /**
+   * Rebuilds the tables from the items ranked within the configured window
+   */
+  recompute(): Promise<void> {
+    return this.tables.recompute();
+  }
+
+  /**
+   * Recomputes the tables now and periodically (in background)
+   */
+  startSchedule(): void {
+    this.tables.start();
+  }
+
+  stopSchedule(): void {
+    this.tables.stop();
+  }
+
+  private async buildTables(
+    since: Date
+  ): Promise<Map<Source, CalibrationTable> | null> {
+    const computedAt = new Date().toISOString();
+
+    const tables: CalibrationTable[] = [];
+    for (const source of Object.values(Source)) {
+      const samples = await this.warehouse.getEngagementSamples(source, since);
+      if (samples.length === 0) continue;
+
+      tables.push({
+        source,
+        sampleSize: samples.length,
+        score: buildPercentileTable(samples.map((sample) => sample.score)),
+        comments: buildPercentileTable(
+          samples.map((sample) => sample.commentCount)
+        ),
+        computedAt,
+      });
+    }
+
+    if (tables.length === 0) return null;
+
+    await this.warehouse.saveCalibrationTables(tables);
+
+    this.logger.info("Score calibration recomputed", {
+      sources: Object.fromEntries(
+        tables.map((table) => [table.source, table.sampleSize])
+      ),
+    });
+
+    return new Map(tables.map((table) => [table.source, table]));
+  }
+}
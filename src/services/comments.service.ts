@@ -0,0 +1,79 @@
+import { inject, singleton } from "tsyringe";
+import type {
+  CommentSort,
+  DiscussionComment,
+  NewsItem,
+  NewsSource,
+  Source,
+} from "../types";
+import { CacheKey } from "../types";
+import { CacheService } from "./cache.service";
+import { SmartMixService } from "./smartmix.service";
+import { DataWarehouseService } from "./data-warehouse.service";
+import { LoggerService } from "./logger.service";
+import {
+  countComments,
+  flattenCommentTree,
+  sortCommentTree,
+} from "../utils/comments";
+
+export interface CommentQueryOptions {
+  sort: CommentSort;
+  flat: boolean;
+}
+
+/**
+ * Source-agnostic comments: dispatches to the source's fetchComments
+ * and sorts/flattens the normalized tree
+ */
+@singleton()
+export class CommentsService {
+  constructor(
+    @inject(CacheService) private cacheService: CacheService,
+    @inject(SmartMixService) private smartMixService: SmartMixService,
+    @inject(DataWarehouseService) private dataWarehouse: DataWarehouseService,
+    @inject(LoggerService) private logger: LoggerService
+  ) {}
+
+  /**
+   * @returns Comments, or null when the source has no comments or the item does not exist
+   */
+  async fetchComments(
+    source: NewsSource,
+    id: string,
+    options: CommentQueryOptions
+  ): Promise<DiscussionComment[] | null> {
+    if (!source.fetchComments) return null;
+
+    // The unsorted tree is cached; sort/flat are applied per request
+    const cacheKey = `${CacheKey.DiscussionComments}:${source.slug}:${id}`;
+    let tree = await this.cacheService.get<DiscussionComment[]>(cacheKey);
+
+    if (!tree) {
+      tree = await source.fetchComments({
+        id,
+        resolveItem: () => this.findItem(source.id, id),
+      });
+      if (!tree) return null;
+
+      this.logger.info(`Fetched ${countComments(tree)} ${source.displayName} comments`, {
+        source: source.slug,
+        id,
+      });
+      await this.cacheService.set(cacheKey, tree);
+    }
+
+    const sorted = sortCommentTree(tree, options.sort);
+    return options.flat ? flattenCommentTree(sorted) : sorted;
+  }
+
+  /**
+   * Finds a feed item in the cached mix, falling back to the warehouse
+   */
+  private async findItem(source: Source, id: string): Promise<NewsItem | null> {
+    const cached = await this.smartMixService.findCachedItem(source, id);
+    if (cached) return cached;
+
+    return this.dataWarehouse.getRawNewsItem(source, id);
+  }
+}
@@ -1,6 +1,7 @@
 import { inject, singleton } from "tsyringe";
-import { MongoClient, Db, Collection } from "mongodb";
+import { MongoClient, Db, Collection, ObjectId } from "mongodb";
 import { LoggerService } from "./logger.service";
+import { SEARCH_FIELD_WEIGHTS } from "../utils/search";
 import type {
   NewsItem,
   EnrichedNewsItem,
@@ -9,13 +10,22 @@ import type {
   WarehouseStats,
   TrendingTopic,
   AnalyticsPeriod,
+  ItemSnapshot,
+  TechScoreOrigin,
+  CalibrationTable,
+  ReputationEntry,
+  RankingConfig,
+  FeedSnapshot,
+  FeedSort,
+  SearchParams,
 } from "../types";
 
 interface RawNewsDocument {
   _id: string;
   source: string;
   data: NewsItem;
-  fetchedAt: Date;
+  fetchedAt: Date; // Latest fetch
+  firstSeenAt?: Date; // Missing on items fetched before it was recorded
 }
 
 interface EnrichedNewsDocument {
@@ -25,6 +35,7 @@ interface EnrichedNewsDocument {
   rawData: NewsItem;
   techScore: number;
   techScoreConfidence: number;
+  techScoreOrigin?: TechScoreOrigin;
   keywords: string[];
   isTechNews: boolean;
   linkMetadata?: {
@@ -45,15 +56,67 @@ interface RankedNewsDocument {
   originalScore: number;
   techScore: number;
   keywords: string[];
+  clusterId?: string;
   rankedAt: Date;
 }
 
-interface MixedFeedDocument {
+interface ItemSnapshotDocument {
+  _id?: ObjectId;
+  source: string;
+  itemId: string;
+  score: number; // Score on the source
+  commentCount: number;
+  rank: number;
+  calculatedScore: number;
+  capturedAt: Date;
+  expiresAt: Date;
+}
+
+interface ExperimentStatsDocument {
+  _id: string; // experimentId:variant:day
+  experimentId: string;
+  variant: string;
+  day: string; // YYYY-MM-DD (UTC)
+  impressions: number;
+  clicks: number;
+  updatedAt: Date;
+}
+
+interface ExperimentImpressionDocument {
+  _id: string; // experimentId:clientId:source:itemId
+  experimentId: string;
+  variant: string; // Variant the item was last shown with
+  clientId: string;
+  source: string;
+  itemId: string;
+  shownAt: Date;
+  clickedAt?: Date; // First click (later ones are not counted)
+  expiresAt: Date;
+}
+
+interface CalibrationTableDocument extends Omit<CalibrationTable, "computedAt"> {
+  _id: string; // source
+  computedAt: Date;
+}
+
+interface ReputationDocument extends Omit<ReputationEntry, "computedAt"> {
+  _id: string; // kind:key
+  computedAt: Date;
+}
+
+interface RankingConfigDocument extends RankingConfig {
   _id: string;
+}
+
+interface MixedFeedDocument {
+  _id: string; // mixed:<timestamp>, or snapshot:<id> for feed snapshots
   items: NewsItem[];
   mixedAt: Date;
   generatedAt: Date;
   itemCount: number;
+  sort?: FeedSort; // Feed snapshots only
+  filters?: string; // Feed snapshots only
+  expiresAt?: Date; // Feed snapshots only (TTL)
 }
 
 @singleton()
@@ -64,7 +127,17 @@ export class DataWarehouseService {
   private enrichedCollection: Collection<EnrichedNewsDocument> | null = null;
   private rankedCollection: Collection<RankedNewsDocument> | null = null;
   private mixedCollection: Collection<MixedFeedDocument> | null = null;
+  private snapshotsCollection: Collection<ItemSnapshotDocument> | null = null;
+  private experimentStatsCollection: Collection<ExperimentStatsDocument> | null =
+    null;
+  private experimentImpressionsCollection: Collection<ExperimentImpressionDocument> | null =
+    null;
+  private calibrationCollection: Collection<CalibrationTableDocument> | null = null;
+  private reputationCollection: Collection<ReputationDocument> | null = null;
+  private rankingConfigCollection: Collection<RankingConfigDocument> | null = null;
   private isConnected = false;
+  private readonly SNAPSHOT_TTL_DAYS = 30;
+  private readonly IMPRESSION_TTL_DAYS = 1;
   private initPromise: Promise<void>;
 
   constructor(@inject(LoggerService) private logger: LoggerService) {
@@ -94,6 +167,12 @@ export class DataWarehouseService {
       this.enrichedCollection = this.db.collection("enriched_news");
       this.rankedCollection = this.db.collection("ranked_news");
       this.mixedCollection = this.db.collection("mixed_feed");
+      this.snapshotsCollection = this.db.collection("item_snapshots");
+      this.experimentStatsCollection = this.db.collection("experiment_stats");
+      this.experimentImpressionsCollection = this.db.collection("experiment_impressions");
+      this.calibrationCollection = this.db.collection("score_calibration");
+      this.reputationCollection = this.db.collection("reputation");
+      this.rankingConfigCollection = this.db.collection("ranking_config");
 
       await this.createIndexes();
 
@@ -115,14 +194,49 @@ export class DataWarehouseService {
       await this.enrichedCollection?.createIndex({ keywords: 1 });
       await this.enrichedCollection?.createIndex({ techScore: -1 });
       await this.enrichedCollection?.createIndex({ isTechNews: 1, enrichedAt: -1 });
+      await this.enrichedCollection?.createIndex({ enrichedAt: -1 });
+      // Full-text search; no stemming since posts are in Portuguese and English
+      await this.enrichedCollection?.createIndex(
+        { "rawData.title": "text", keywords: "text", "rawData.body": "text" },
+        {
+          name: "search_text",
+          weights: {
+            "rawData.title": SEARCH_FIELD_WEIGHTS.title,
+            keywords: SEARCH_FIELD_WEIGHTS.keywords,
+            "rawData.body": SEARCH_FIELD_WEIGHTS.body,
+          },
+          default_language: "none",
+        }
+      );
 
       await this.rankedCollection?.createIndex({ source: 1, rank: 1 });
       await this.rankedCollection?.createIndex({ calculatedScore: -1 });
       await this.rankedCollection?.createIndex({ rankedAt: -1 });
       await this.rankedCollection?.createIndex({ source: 1, rankedAt: -1 });
       await this.rankedCollection?.createIndex({ keywords: 1, rankedAt: -1 });
+      await this.rankedCollection?.createIndex({ clusterId: 1, rankedAt: -1 });
 
       await this.mixedCollection?.createIndex({ mixedAt: -1 });
+      // Only feed snapshots have expiresAt, mixed feed history is kept
+      await this.mixedCollection?.createIndex(
+        { expiresAt: 1 },
+        { expireAfterSeconds: 0 }
+      );
+
+      await this.snapshotsCollection?.createIndex(
+        { expiresAt: 1 },
+        { expireAfterSeconds: 0 }
+      );
+      await this.snapshotsCollection?.createIndex({ source: 1, itemId: 1, capturedAt: 1 });
+      await this.snapshotsCollection?.createIndex({ capturedAt: 1 });
+
+      await this.experimentStatsCollection?.createIndex({ experimentId: 1, day: 1 });
+      await this.experimentImpressionsCollection?.createIndex(
+        { expiresAt: 1 },
+        { expireAfterSeconds: 0 }
+      );
+
+      await this.reputationCollection?.createIndex({ kind: 1, reputation: -1 });
 
       this.logger.info("Data warehouse indexes created successfully");
     } catch (error) {
@@ -145,7 +259,13 @@ export class DataWarehouseService {
 
       const bulk = this.rawCollection.initializeUnorderedBulkOp();
       for (const entry of entries) {
-        bulk.find({ _id: entry._id }).upsert().updateOne({ $set: entry });
+        bulk
+          .find({ _id: entry._id })
+          .upsert()
+          .updateOne({
+            $set: entry,
+            $setOnInsert: { firstSeenAt: entry.fetchedAt },
+          });
       }
       await bulk.execute();
 
@@ -169,6 +289,7 @@ export class DataWarehouseService {
         rawData: item.rawData,
         techScore: item.techScore,
         techScoreConfidence: item.techScoreConfidence,
+        techScoreOrigin: item.techScoreOrigin,
         keywords: item.keywords,
         isTechNews: item.isTechNews,
         linkMetadata: item.linkMetadata,
@@ -204,6 +325,7 @@ export class DataWarehouseService {
         originalScore: item.originalScore,
         techScore: item.techScore,
         keywords: item.keywords,
+        clusterId: item.clusterId,
         rankedAt: item.rankedAt,
       }));
 
@@ -242,6 +364,270 @@ export class DataWarehouseService {
     }
   }
 
+  /**
+   * Stores a feed snapshot, or extends its expiration when already stored
+   */
+  async saveFeedSnapshot(snapshot: FeedSnapshot): Promise<void> {
+    if (!this.isConnected || !this.mixedCollection) return;
+
+    try {
+      await this.mixedCollection.updateOne(
+        { _id: `snapshot:${snapshot.id}` },
+        {
+          $setOnInsert: {
+            items: snapshot.items,
+            mixedAt: new Date(snapshot.createdAt),
+            generatedAt: new Date(snapshot.generatedAt),
+            itemCount: snapshot.items.length,
+            sort: snapshot.sort,
+            filters: snapshot.filters,
+          },
+          $max: { expiresAt: new Date(snapshot.expiresAt) },
+        },
+        { upsert: true }
+      );
+    } catch (error) {
+      this.logger.error("Error saving feed snapshot", { id: snapshot.id, error });
+    }
+  }
+
+  /**
+   * @returns null when the snapshot does not exist or expired
+   */
+  async getFeedSnapshot(id: string): Promise<FeedSnapshot | null> {
+    await this.initPromise;
+    if (!this.isConnected || !this.mixedCollection) return null;
+
+    try {
+      const entry = await this.mixedCollection.findOne({ _id: `snapshot:${id}` });
+      // The TTL monitor only runs every minute
+      if (!entry?.sort || !entry.expiresAt || entry.expiresAt <= new Date()) {
+        return null;
+      }
+
+      return {
+        id,
+        sort: entry.sort,
+        filters: entry.filters ?? "",
+        items: entry.items,
+        generatedAt: entry.generatedAt.toISOString(),
+        createdAt: entry.mixedAt.toISOString(),
+        expiresAt: entry.expiresAt.toISOString(),
+      };
+    } catch (error) {
+      this.logger.error("Error querying feed snapshot", { id, error });
+      return null;
+    }
+  }
+
+  /**
+   * Appends one score/comment snapshot per ranked item (item_snapshots expire after SNAPSHOT_TTL_DAYS)
+   */
+  async saveItemSnapshots(items: RankedNewsItem[], source: string): Promise<void> {
+    if (!this.isConnected || !this.snapshotsCollection || items.length === 0) {
+      return;
+    }
+
+    try {
+      const capturedAt = new Date();
+      const expiresAt = new Date(
+        capturedAt.getTime() + this.SNAPSHOT_TTL_DAYS * 24 * 60 * 60 * 1000
+      );
+
+      const entries: ItemSnapshotDocument[] = items.map((item) => ({
+        source,
+        itemId: item.itemId,
+        score: item.originalScore,
+        commentCount: item.data.commentCount ?? 0,
+        rank: item.rank,
+        calculatedScore: item.calculatedScore,
+        capturedAt,
+        expiresAt,
+      }));
+
+      await this.snapshotsCollection.insertMany(entries, { ordered: false });
+      this.logger.info(`Saved ${items.length} item snapshots from ${source}`);
+    } catch (error) {
+      this.logger.error(`Error saving item snapshots from ${source}`, { source, error });
+      throw error;
+    }
+  }
+
+  async getItemSnapshots(
+    source: string,
+    itemId: string,
+    since: Date
+  ): Promise<ItemSnapshot[]> {
+    await this.initPromise;
+    if (!this.isConnected || !this.snapshotsCollection) {
+      return [];
+    }
+
+    try {
+      const snapshots = await this.snapshotsCollection
+        .find({ source, itemId, capturedAt: { $gte: since } })
+        .sort({ capturedAt: 1 })
+        .toArray();
+
+      return snapshots.map((snapshot) => ({
+        capturedAt: snapshot.capturedAt.toISOString(),
+        score: snapshot.score,
+        commentCount: snapshot.commentCount,
+        rank: snapshot.rank,
+        calculatedScore: snapshot.calculatedScore,
+      }));
+    } catch (error) {
+      this.logger.error("Error querying item snapshots", { source, itemId, error });
+      return [];
+    }
+  }
+
+  /**
+   * Snapshots of many items at once, keyed by `${source}:${itemId}`
+   */
+  async getSnapshotsForItems(
+    items: Array<{ source: string; itemId: string }>,
+    since: Date
+  ): Promise<Map<string, ItemSnapshot[]>> {
+    await this.initPromise;
+    const byItem = new Map<string, ItemSnapshot[]>();
+    if (!this.isConnected || !this.snapshotsCollection || items.length === 0) {
+      return byItem;
+    }
+
+    try {
+      const snapshots = await this.snapshotsCollection
+        .find(
+          {
+            itemId: { $in: [...new Set(items.map((item) => item.itemId))] },
+            capturedAt: { $gte: since },
+          },
+          { projection: { _id: 0, expiresAt: 0 } }
+        )
+        .sort({ capturedAt: 1 })
+        .toArray();
+
+      for (const snapshot of snapshots) {
+        const key = `${snapshot.source}:${snapshot.itemId}`;
+        const list = byItem.get(key) ?? [];
+        list.push({
+          capturedAt: snapshot.capturedAt.toISOString(),
+          score: snapshot.score,
+          commentCount: snapshot.commentCount,
+          rank: snapshot.rank,
+          calculatedScore: snapshot.calculatedScore,
+        });
+        byItem.set(key, list);
+      }
+      return byItem;
+    } catch (error) {
+      this.logger.error("Error querying snapshots for items", { error });
+      return byItem;
+    }
+  }
+
+  /**
+   * Keeps only the latest snapshot of each item per time bucket
+   * for snapshots captured in [from, to)
+   * @returns Number of snapshots removed
+   */
+  async downsampleSnapshots(from: Date, to: Date, bucketMs: number): Promise<number> {
+    await this.initPromise;
+    if (!this.isConnected || !this.snapshotsCollection) {
+      return 0;
+    }
+
+    try {
+      const capturedAtMs = { $toLong: "$capturedAt" };
+      const groups = await this.snapshotsCollection
+        .aggregate<{ keep: ObjectId; all: ObjectId[] }>([
+          { $match: { capturedAt: { $gte: from, $lt: to } } },
+          { $sort: { capturedAt: 1 } },
+          {
+            $group: {
+              _id: {
+                source: "$source",
+                itemId: "$itemId",
+                bucket: { $subtract: [capturedAtMs, { $mod: [capturedAtMs, bucketMs] }] },
+              },
+              keep: { $last: "$_id" },
+              all: { $push: "$_id" },
+            },
+          },
+          { $match: { "all.1": { $exists: true } } },
+        ])
+        .toArray();
+
+      const toDelete = groups.flatMap((group) =>
+        group.all.filter((id) => !id.equals(group.keep))
+      );
+      if (toDelete.length === 0) return 0;
+
+      const result = await this.snapshotsCollection.deleteMany({ _id: { $in: toDelete } });
+      return result.deletedCount;
+    } catch (error) {
+      this.logger.error("Error downsampling item snapshots", { error });
+      return 0;
+    }
+  }
+
+  /**
+   * Whether the warehouse is connected (once the connection attempt finished)
+   */
+  async isAvailable(): Promise<boolean> {
+    await this.initPromise;
+    return this.isConnected;
+  }
+
+  /**
+   * Enriched items matching a text query (text index), best matches first
+   * @returns At most limit items with their text score
+   */
+  async searchEnrichedNews(
+    params: SearchParams,
+    limit = 500
+  ): Promise<Array<{ item: NewsItem; textScore: number }>> {
+    await this.initPromise;
+    if (!this.isConnected || !this.enrichedCollection) return [];
+
+    const { sources, since, until, minTechScore } = params.filters;
+    // Sources store publishedAt as UTC ISO strings, which sort like dates
+    const publishedAt: Record<string, string> = {};
+    if (since) publishedAt.$gte = since;
+    if (until) publishedAt.$lte = until;
+
+    try {
+      const entries = await this.enrichedCollection
+        .find(
+          {
+            $text: { $search: params.q },
+            ...(sources ? { source: { $in: sources } } : {}),
+            ...(since || until ? { "rawData.publishedAt": publishedAt } : {}),
+            ...(minTechScore !== undefined
+              ? { techScore: { $gte: minTechScore } }
+              : {}),
+          },
+          { projection: { textScore: { $meta: "textScore" } } }
+        )
+        .sort({ textScore: { $meta: "textScore" } })
+        .limit(limit)
+        .toArray();
+
+      return entries.map((entry) => ({
+        item: {
+          ...entry.rawData,
+          techScore: entry.techScore,
+          techScoreOrigin: entry.techScoreOrigin,
+          keywords: entry.keywords,
+        },
+        textScore: (entry as unknown as { textScore: number }).textScore,
+      }));
+    } catch (error) {
+      this.logger.error("Error searching enriched news", { q: params.q, error });
+      throw error;
+    }
+  }
+
   async getRawNewsBySourceAndDate(
     source: string,
     startDate: Date,
@@ -268,6 +654,91 @@ export class DataWarehouseService {
     }
   }
 
+  async getRawNewsItem(source: string, id: string): Promise<NewsItem | null> {
+    await this.initPromise;
+    if (!this.isConnected || !this.rawCollection) {
+      return null;
+    }
+
+    try {
+      const entry = await this.rawCollection.findOne({ _id: `${source}:${id}` });
+      return entry?.data ?? null;
+    } catch (error) {
+      this.logger.error("Error querying raw news item", { source, id, error });
+      return null;
+    }
+  }
+
+  /**
+   * Every stored record of an item (null where the item never reached that step)
+   */
+  async getItemRecords(
+    source: string,
+    id: string
+  ): Promise<{
+    raw: { item: NewsItem; firstSeenAt: Date | null; fetchedAt: Date } | null;
+    enriched: EnrichedNewsItem | null;
+    ranked: RankedNewsItem | null;
+  }> {
+    await this.initPromise;
+    if (
+      !this.isConnected ||
+      !this.rawCollection ||
+      !this.enrichedCollection ||
+      !this.rankedCollection
+    ) {
+      return { raw: null, enriched: null, ranked: null };
+    }
+
+    try {
+      const [raw, enriched, ranked] = await Promise.all([
+        this.rawCollection.findOne({ _id: `${source}:${id}` }),
+        this.enrichedCollection.findOne(
+          { _id: `${source}:enriched:${id}` },
+          { projection: { _id: 0 } }
+        ),
+        this.rankedCollection.findOne(
+          { _id: `${source}:ranked:${id}` },
+          { projection: { _id: 0 } }
+        ),
+      ]);
+
+      return {
+        raw: raw
+          ? {
+              item: raw.data,
+              firstSeenAt: raw.firstSeenAt ?? null,
+              fetchedAt: raw.fetchedAt,
+            }
+          : null,
+        enriched: enriched
+          ? { ...enriched, source: enriched.source as Source }
+          : null,
+        ranked: ranked ? { ...ranked, source: ranked.source as Source } : null,
+      };
+    } catch (error) {
+      this.logger.error("Error querying item records", { source, id, error });
+      return { raw: null, enriched: null, ranked: null };
+    }
+  }
+
+  async getRankedNewsItem(source: string, id: string): Promise<NewsItem | null> {
+    await this.initPromise;
+    if (!this.isConnected || !this.rankedCollection) {
+      return null;
+    }
+
+    try {
+      const entry = await this.rankedCollection.findOne({
+        _id: `${source}:ranked:${id}`,
+      });
+      return entry?.data ?? null;
+    } catch (error) {
+      this.logger.error("Error querying ranked news item", { source, id, error });
+      return null;
+    }
+  }
+
   async getRankedNewsByDate(
     startDate: Date,
     endDate: Date,
@@ -328,6 +799,8 @@ export class DataWarehouseService {
             count: { $sum: 1 },
             avgScore: { $avg: "$calculatedScore" },
             sources: { $addToSet: "$source" },
+            // Legacy documents without a cluster count as their own story
+            stories: { $addToSet: { $ifNull: ["$clusterId", "$_id"] } },
             articles: {
               $push: {
                 id: "$itemId",
@@ -338,7 +811,8 @@ export class DataWarehouseService {
             },
           },
         },
-        { $sort: { count: -1, avgScore: -1 } },
+        { $addFields: { storyCount: { $size: "$stories" } } },
+        { $sort: { storyCount: -1, count: -1, avgScore: -1 } },
         { $limit: limit },
       ];
 
@@ -347,6 +821,7 @@ export class DataWarehouseService {
       return results.map((r) => ({
         keyword: r._id as string,
         count: r.count as number,
+        storyCount: r.storyCount as number,
         avgScore: Math.round(r.avgScore as number),
         sources: r.sources as Source[],
         topArticles: (r.articles as Array<{id: string; title: string; score: number; source: Source}>)
@@ -383,6 +858,8 @@ export class DataWarehouseService {
             totalComments: { $sum: "$data.commentCount" },
             avgScore: { $avg: "$calculatedScore" },
             sources: { $addToSet: "$source" },
+            // Legacy documents without a cluster count as their own story
+            stories: { $addToSet: { $ifNull: ["$clusterId", "$_id"] } },
             articles: {
               $push: {
                 id: "$itemId",
@@ -393,6 +870,7 @@ export class DataWarehouseService {
             },
           },
         },
+        { $addFields: { storyCount: { $size: "$stories" } } },
         { $sort: { totalComments: -1 } },
         { $limit: limit },
       ];
@@ -402,6 +880,7 @@ export class DataWarehouseService {
       return results.map((r) => ({
         keyword: r._id as string,
         count: r.count as number,
+        storyCount: r.storyCount as number,
         avgScore: Math.round(r.avgScore as number),
         sources: r.sources as Source[],
         topArticles: (r.articles as Array<{id: string; title: string; score: number; source: Source}>)
@@ -420,17 +899,25 @@ export class DataWarehouseService {
         rawCount: 0,
         enrichedCount: 0,
         rankedCount: 0,
+        storyCount: 0,
         mixedCount: 0,
         logsCount: 0,
       };
     }
 
     try {
-      const [rawCount, enrichedCount, rankedCount, mixedCount] = await Promise.all([
+      const [rawCount, enrichedCount, rankedCount, stories, mixedCount] = await Promise.all([
         this.rawCollection?.countDocuments() || 0,
         this.enrichedCollection?.countDocuments() || 0,
         this.rankedCollection?.countDocuments() || 0,
-        this.mixedCollection?.countDocuments() || 0,
+        // Items ranked before clustering count as their own story
+        this.rankedCollection
+          ?.aggregate<{ count: number }>([
+            { $group: { _id: { $ifNull: ["$clusterId", "$_id"] } } },
+            { $count: "count" },
+          ])
+          .toArray() || [],
+        this.mixedCollection?.countDocuments({ expiresAt: { $exists: false } }) || 0,
       ]);
 
       const oldest = await this.rawCollection
@@ -449,6 +936,7 @@ export class DataWarehouseService {
         rawCount,
         enrichedCount,
         rankedCount,
+        storyCount: stories[0]?.count ?? 0,
         mixedCount,
         logsCount: 0,
         oldestRecord: oldest?.[0]?.fetchedAt,
@@ -460,6 +948,7 @@ export class DataWarehouseService {
         rawCount: 0,
         enrichedCount: 0,
         rankedCount: 0,
+        storyCount: 0,
         mixedCount: 0,
         logsCount: 0,
       };
@@ -506,4 +995,319 @@ export class DataWarehouseService {
       this.logger.info("Disconnected from MongoDB warehouse");
     }
   }
+
+  /**
+   * Adds impressions/clicks to the daily counters of an experiment variant
+   */
+  async incrementExperimentStats(
+    experimentId: string,
+    variant: string,
+    counts: { impressions?: number; clicks?: number }
+  ): Promise<void> {
+    if (!this.isConnected || !this.experimentStatsCollection) return;
+
+    const day = new Date().toISOString().slice(0, 10);
+
+    try {
+      await this.experimentStatsCollection.updateOne(
+        { _id: `${experimentId}:${variant}:${day}` },
+        {
+          $inc: { impressions: counts.impressions ?? 0, clicks: counts.clicks ?? 0 },
+          $set: { updatedAt: new Date() },
+          $setOnInsert: { experimentId, variant, day },
+        },
+        { upsert: true }
+      );
+    } catch (error) {
+      this.logger.error("Error saving experiment stats", {
+        experimentId,
+        variant,
+        error,
+      });
+    }
+  }
+
+  /**
+   * Remembers which items a client of an experiment was shown
+   * (for IMPRESSION_TTL_DAYS after the last time), so clicks can be checked
+   * @returns How many of the items the client had not been shown yet
+   */
+  async saveExperimentImpressions(
+    experimentId: string,
+    variant: string,
+    clientId: string,
+    items: NewsItem[]
+  ): Promise<number> {
+    if (
+      !this.isConnected ||
+      !this.experimentImpressionsCollection ||
+      items.length === 0
+    ) {
+      return 0;
+    }
+
+    const shownAt = new Date();
+    const expiresAt = new Date(
+      shownAt.getTime() + this.IMPRESSION_TTL_DAYS * 24 * 60 * 60 * 1000
+    );
+
+    try {
+      const bulk = this.experimentImpressionsCollection.initializeUnorderedBulkOp();
+      for (const item of items) {
+        bulk
+          .find({ _id: `${experimentId}:${clientId}:${item.source}:${item.id}` })
+          .upsert()
+          .updateOne({
+            $set: { variant, shownAt, expiresAt },
+            $setOnInsert: {
+              experimentId,
+              clientId,
+              source: item.source,
+              itemId: item.id,
+            },
+          });
+      }
+      const result = await bulk.execute();
+      return result.upsertedCount;
+    } catch (error) {
+      this.logger.error("Error saving experiment impressions", {
+        experimentId,
+        error,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Marks the first click of a client on an item it was shown
+   * @returns The variant the item was shown with, or null when it was never
+   * shown to the client (or the impression expired) or was already clicked
+   */
+  async markExperimentClick(
+    experimentId: string,
+    clientId: string,
+    source: Source,
+    itemId: string
+  ): Promise<string | null> {
+    await this.initPromise;
+    if (!this.isConnected || !this.experimentImpressionsCollection) return null;
+
+    const entry = await this.experimentImpressionsCollection.findOneAndUpdate(
+      {
+        _id: `${experimentId}:${clientId}:${source}:${itemId}`,
+        clickedAt: { $exists: false },
+      },
+      { $set: { clickedAt: new Date() } }
+    );
+
+    return entry?.variant ?? null;
+  }
+
+  /**
+   * Impressions and clicks of every variant of an experiment (all days)
+   */
+  async getExperimentStats(
+    experimentId: string
+  ): Promise<Array<{ variant: string; impressions: number; clicks: number }>> {
+    await this.initPromise;
+    if (!this.isConnected || !this.experimentStatsCollection) return [];
+
+    try {
+      const results = await this.experimentStatsCollection
+        .aggregate<{ _id: string; impressions: number; clicks: number }>([
+          { $match: { experimentId } },
+          {
+            $group: {
+              _id: "$variant",
+              impressions: { $sum: "$impressions" },
+              clicks: { $sum: "$clicks" },
+            },
+          },
+          { $sort: { _id: 1 } },
+        ])
+        .toArray();
+
+      return results.map((result) => ({
+        variant: result._id,
+        impressions: result.impressions,
+        clicks: result.clicks,
+      }));
+    } catch (error) {
+      this.logger.error("Error querying experiment stats", { experimentId, error });
+      return [];
+    }
+  }
+
+  /**
+   * Score on the source and comment count of the items ranked since a date
+   * (latest ranking of each item, most recent first)
+   */
+  async getEngagementSamples(
+    source: Source,
+    since: Date,
+    limit = 5000
+  ): Promise<Array<{ score: number; commentCount: number }>> {
+    await this.initPromise;
+    if (!this.isConnected || !this.rankedCollection) return [];
+
+    try {
+      const entries = await this.rankedCollection
+        .find(
+          { source, rankedAt: { $gte: since } },
+          { projection: { originalScore: 1, "data.commentCount": 1 } }
+        )
+        .sort({ rankedAt: -1 })
+        .limit(limit)
+        .toArray();
+
+      return entries.map((entry) => ({
+        score: entry.originalScore ?? 0,
+        commentCount: entry.data?.commentCount ?? 0,
+      }));
+    } catch (error) {
+      this.logger.error("Error querying engagement samples", { source, error });
+      return [];
+    }
+  }
+
+  async saveCalibrationTables(tables: CalibrationTable[]): Promise<void> {
+    if (!this.isConnected || !this.calibrationCollection || tables.length === 0) {
+      return;
+    }
+
+    try {
+      const bulk = this.calibrationCollection.initializeUnorderedBulkOp();
+      for (const table of tables) {
+        bulk
+          .find({ _id: table.source })
+          .upsert()
+          .replaceOne({
+            _id: table.source,
+            ...table,
+            computedAt: new Date(table.computedAt),
+          });
+      }
+      await bulk.execute();
+    } catch (error) {
+      this.logger.error("Error saving calibration tables", { error });
+    }
+  }
+
+  async getCalibrationTables(): Promise<CalibrationTable[]> {
+    await this.initPromise;
+    if (!this.isConnected || !this.calibrationCollection) return [];
+
+    try {
+      const entries = await this.calibrationCollection.find().toArray();
+      return entries.map(({ _id, computedAt, ...table }) => ({
+        ...table,
+        computedAt: computedAt.toISOString(),
+      }));
+    } catch (error) {
+      this.logger.error("Error querying calibration tables", { error });
+      return [];
+    }
+  }
+
+  /**
+   * Items enriched since a date with their score on the source and techScore
+   * (latest enrichment of each item, most recent first). Includes the items
+   * the tech filter kept out of ranked_news, so low techScores count.
+   */
+  async getReputationSamples(since: Date, limit = 20000): Promise<NewsItem[]> {
+    await this.initPromise;
+    if (!this.isConnected || !this.enrichedCollection) return [];
+
+    try {
+      const entries = await this.enrichedCollection
+        .find(
+          { enrichedAt: { $gte: since } },
+          { projection: { rawData: 1, techScore: 1 } }
+        )
+        .sort({ enrichedAt: -1 })
+        .limit(limit)
+        .toArray();
+
+      return entries.map((entry) => ({
+        ...entry.rawData,
+        techScore: entry.techScore,
+      }));
+    } catch (error) {
+      this.logger.error("Error querying reputation samples", { error });
+      return [];
+    }
+  }
+
+  /**
+   * Replaces the stored reputation (domains/authors without recent posts are dropped)
+   */
+  async saveReputation(entries: ReputationEntry[]): Promise<void> {
+    if (!this.isConnected || !this.reputationCollection || entries.length === 0) {
+      return;
+    }
+
+    try {
+      const computedAt = new Date(entries[0].computedAt);
+      const bulk = this.reputationCollection.initializeUnorderedBulkOp();
+      for (const entry of entries) {
+        const _id = `${entry.kind}:${entry.key}`;
+        bulk
+          .find({ _id })
+          .upsert()
+          .replaceOne({ _id, ...entry, computedAt });
+      }
+      await bulk.execute();
+
+      await this.reputationCollection.deleteMany({
+        computedAt: { $lt: computedAt },
+      });
+    } catch (error) {
+      this.logger.error("Error saving reputation", { error });
+    }
+  }
+
+  async getReputation(): Promise<ReputationEntry[]> {
+    await this.initPromise;
+    if (!this.isConnected || !this.reputationCollection) return [];
+
+    try {
+      const entries = await this.reputationCollection.find().toArray();
+      return entries.map(({ _id, computedAt, ...entry }) => ({
+        ...entry,
+        computedAt: computedAt.toISOString(),
+      }));
+    } catch (error) {
+      this.logger.error("Error querying reputation", { error });
+      return [];
+    }
+  }
+
+  /**
+   * The stored ranking config (unvalidated), null when none was stored
+   */
+  async getRankingConfig(id: string): Promise<RankingConfig | null> {
+    await this.initPromise;
+    if (!this.isConnected || !this.rankingConfigCollection) return null;
+
+    const entry = await this.rankingConfigCollection.findOne({ _id: id });
+    if (!entry) return null;
+
+    const { _id, ...config } = entry;
+    return config;
+  }
+
+  async saveRankingConfig(id: string, config: RankingConfig): Promise<void> {
+    if (!this.isConnected || !this.rankingConfigCollection) return;
+
+    try {
+      await this.rankingConfigCollection.replaceOne(
+        { _id: id },
+        config,
+        { upsert: true }
+      );
+    } catch (error) {
+      this.logger.error("Error saving ranking config", { error });
+      throw error;
+    }
+  }
 }
@@ -1,21 +1,34 @@
 import { inject, singleton } from "tsyringe";
-import type { ArticleWithAuthor, DevToArticle, NewsItem } from "../types";
+import type {
+  ArticleWithAuthor,
+  DevToArticle,
+  DevToComment,
+  DiscussionComment,
+  NewsItem,
+} from "../types";
 import { Source, CacheKey } from "../types";
 import { LoggerService } from "./logger.service";
+import { RankingConfigService } from "./ranking-config.service";
 import { GeminiService } from "./gemini.service";
-import { capScoreForCodeHostingSites } from "../utils/scoring";
+import {
+  capTechScore,
+  readCachedTechScore,
+  type SourceTechScore,
+} from "../utils/scoring";
 import { CacheService } from "./cache.service";
+import { htmlToMarkdown } from "../utils/markdown";
 
 @singleton()
 export class DevToService {
   private readonly API_URL = "https://dev.to/api";
   private readonly apiKey: string | undefined;
-  private readonly MIN_TECH_SCORE = 61; // Minimum score to consider tech-related
 
   constructor(
     @inject(LoggerService) private logger: LoggerService,
     @inject(GeminiService) private geminiService: GeminiService,
     @inject(CacheService) private cacheService: CacheService,
+    @inject(RankingConfigService)
+    private rankingConfig: RankingConfigService,
   ) {
     this.apiKey = process.env.DEV_TO_KEY;
 
@@ -133,7 +146,7 @@ export class DevToService {
           title: article.title,
           author: article.user.username,
           score,
-          publishedAt: article.published_at,
+          publishedAt: new Date(article.published_at).toISOString(),
           source: Source.DevTo,
           url: article.url,
           sourceUrl: article.canonical_url,
@@ -161,6 +174,46 @@ export class DevToService {
     }
   }
 
+  /**
+   * Fetches the comment tree of an article (HTML converted to Markdown;
+   * Dev.to does not expose comment scores)
+   * @param articleId - Dev.to article id
+   * @returns Comments, or null when the article does not exist
+   */
+  async fetchDiscussion(articleId: number): Promise<DiscussionComment[] | null> {
+    const response = await fetch(`${this.API_URL}/comments?a_id=${articleId}`);
+
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new Error(
+        `Dev.to API error: ${response.status} ${response.statusText}`,
+      );
+    }
+
+    const comments = (await response.json()) as DevToComment[];
+
+    const toDiscussion = (
+      comment: DevToComment,
+      parentId: string | null,
+      depth: number,
+    ): DiscussionComment => ({
+      id: comment.id_code,
+      source: Source.DevTo,
+      parentId,
+      depth,
+      author: comment.user.username,
+      body: htmlToMarkdown(comment.body_html),
+      score: null,
+      createdAt: comment.created_at,
+      permalink: `https://dev.to/${comment.user.username}/comment/${comment.id_code}`,
+      children: comment.children.map((child) =>
+        toDiscussion(child, comment.id_code, depth + 1),
+      ),
+    });
+
+    return comments.map((comment) => toDiscussion(comment, null, 0));
+  }
+
   /**
    * Filters news items by tech relevance using AI analysis
    * Uses cached scores when available to reduce API calls
@@ -169,11 +222,13 @@ export class DevToService {
     const analysisPromises = items.map(async (item) => {
       // Check if we have cached score for this post
       const cacheKey = `tech-score:devto:${item.id}`;
-      const cachedScore = await this.cacheService.get<number>(cacheKey);
+      const cachedScore = await this.cacheService.get<number | SourceTechScore>(
+        cacheKey,
+      );
 
-      let score: number;
+      let score: SourceTechScore;
       if (cachedScore !== null) {
-        score = cachedScore;
+        score = readCachedTechScore(cachedScore);
       } else {
         // Analyze with AI (title + body if available)
         const tempScore = await this.geminiService.analyzeTechRelevance(
@@ -183,7 +238,7 @@ export class DevToService {
 
         // Cap score for code hosting sites
         const urlToCheck = item.sourceUrl || item.url;
-        score = capScoreForCodeHostingSites(tempScore, urlToCheck);
+        score = capTechScore(tempScore, urlToCheck);
 
         // Cache score for 24 hours (86400 seconds)
         await this.cacheService.set(cacheKey, score, 86400);
@@ -195,12 +250,14 @@ export class DevToService {
     // Wait for all analyses to complete
     const results = await Promise.all(analysisPromises);
 
-    // Filter items with score >= MIN_TECH_SCORE and attach techScore to each item
+    // Filter items with score >= minTechScore and attach techScore to each item
+    const { minTechScore } = this.rankingConfig.forSource(Source.DevTo);
     const filtered = results
-      .filter(({ score }) => score >= this.MIN_TECH_SCORE)
+      .filter(({ score }) => score.score >= minTechScore)
       .map(({ item, score }) => ({
         ...item,
-        techScore: score, // Add AI score to NewsItem for ranking
+        techScore: score.score, // Add AI score to NewsItem for ranking
+        techScoreCapped: score.codeHostingCapped,
       }));
 
     return filtered;
@@ -3,13 +3,23 @@ import { LoggerService } from "./logger.service";
 import { GeminiService } from "./gemini.service";
 import { ProcessingLogsService } from "./processing-logs.service";
 import { capScoreForCodeHostingSites } from "../utils/scoring";
-import type { NewsItem, EnrichedNewsItem, Source } from "../types";
+import type {
+  NewsItem,
+  EnrichedNewsItem,
+  Source,
+  TechScoreOrigin,
+} from "../types";
 
 interface KeywordExtractionResult {
   keywords: string[];
   isTechNews: boolean;
 }
 
+interface TechScoreResult {
+  score: number;
+  origin: TechScoreOrigin;
+}
+
 @singleton()
 export class EnrichmentService {
   private readonly TECH_KEYWORDS = new Set([
@@ -120,7 +130,7 @@ export class EnrichmentService {
     let errorInfo: { message: string; stack?: string } | undefined;
 
     try {
-      const [techScore, keywordResult] = await Promise.all([
+      const [{ score: techScore, origin }, keywordResult] = await Promise.all([
         this.analyzeTechScore(item),
         this.extractKeywords(item),
       ]);
@@ -131,6 +141,7 @@ export class EnrichmentService {
         rawData: item,
         techScore,
         techScoreConfidence: this.calculateConfidence(item),
+        techScoreOrigin: origin,
         keywords: keywordResult.keywords,
         isTechNews: keywordResult.isTechNews || techScore >= 60,
         enrichedAt: new Date(),
@@ -187,16 +198,27 @@ export class EnrichmentService {
     return enriched;
   }
 
-  private async analyzeTechScore(item: NewsItem): Promise<number> {
+  private async analyzeTechScore(item: NewsItem): Promise<TechScoreResult> {
+    const urlToCheck = item.sourceUrl || item.url;
+
+    // Already scored (and capped) by the source's own tech filter
     if (item.techScore !== undefined && item.techScore > 0) {
-      return item.techScore;
+      return {
+        score: item.techScore,
+        origin: {
+          method: "gemini",
+          scoredBy: "source",
+          // Recorded by the source's tech filter
+          codeHostingCapped: item.techScoreCapped ?? null,
+        },
+      };
     }
 
     const hasEnoughContent =
       (item.body?.length || 0) > 50 || (item.title?.length || 0) > 10;
 
     if (!hasEnoughContent) {
-      return this.estimateTechScoreFromKeywords(item);
+      return this.keywordFallback(item);
     }
 
     try {
@@ -205,18 +227,35 @@ export class EnrichmentService {
         item.body || "",
       );
 
-      const urlToCheck = item.sourceUrl || item.url;
       const score = capScoreForCodeHostingSites(tempScore, urlToCheck);
 
-      return score;
+      return {
+        score,
+        origin: {
+          method: "gemini",
+          scoredBy: "enrichment",
+          codeHostingCapped: score < tempScore,
+        },
+      };
     } catch (error) {
       this.logger.warn(
         `AI analysis failed for ${item.id}, using keyword fallback`,
       );
-      return this.estimateTechScoreFromKeywords(item);
+      return this.keywordFallback(item);
     }
   }
 
+  private keywordFallback(item: NewsItem): TechScoreResult {
+    return {
+      score: this.estimateTechScoreFromKeywords(item),
+      origin: {
+        method: "keyword-fallback",
+        scoredBy: "enrichment",
+        codeHostingCapped: false,
+      },
+    };
+  }
+
   private estimateTechScoreFromKeywords(item: NewsItem): number {
     const text = `${item.title} ${item.body || ""}`.toLowerCase();
     let matchCount = 0;
@@ -0,0 +1,109 @@
+import "reflect-metadata";
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { ExperimentService } from "./experiment.service";
+import { Source, type ExperimentAssignment, type NewsItem } from "../types";
+
+describe("ExperimentService clicks", () => {
+  const mockLogger = { info: vi.fn(), error: vi.fn(), warn: vi.fn() };
+  const assignment: ExperimentAssignment = {
+    experimentId: "gravity-2025-12",
+    variant: "gravity-1.8",
+    clientId: "client-42",
+    weights: { gravity: 1.8 },
+  };
+  const item: NewsItem = {
+    id: "42",
+    title: "Postgres 18 released",
+    author: "alice",
+    score: 300,
+    publishedAt: "2025-01-01T10:00:00.000Z",
+    source: Source.HackerNews,
+  };
+
+  // Impressions kept in memory, like experiment_impressions
+  let impressions: Map<string, { variant: string; clicked: boolean }>;
+  let mockWarehouse: Record<string, ReturnType<typeof vi.fn>>;
+  let service: ExperimentService;
+
+  beforeEach(() => {
+    impressions = new Map();
+    mockWarehouse = {
+      incrementExperimentStats: vi.fn().mockResolvedValue(undefined),
+      saveExperimentImpressions: vi.fn(
+        async (experimentId: string, variant: string, clientId: string, items: NewsItem[]) => {
+          let inserted = 0;
+          for (const shown of items) {
+            const key = `${experimentId}:${clientId}:${shown.source}:${shown.id}`;
+            const entry = impressions.get(key);
+            if (entry) {
+              entry.variant = variant;
+            } else {
+              impressions.set(key, { variant, clicked: false });
+              inserted++;
+            }
+          }
+          return inserted;
+        }
+      ),
+      markExperimentClick: vi.fn(
+        async (experimentId: string, clientId: string, source: Source, itemId: string) => {
+          const entry = impressions.get(`${experimentId}:${clientId}:${source}:${itemId}`);
+          if (!entry || entry.clicked) return null;
+          entry.clicked = true;
+          return entry.variant;
+        }
+      ),
+    };
+    service = new ExperimentService({} as any, mockWarehouse as any, mockLogger as any);
+  });
+
+  it("should count one impression per item shown to the client", async () => {
+    const other: NewsItem = { ...item, id: "43" };
+    service.recordImpressions(assignment, [item]);
+    await vi.waitFor(() => expect(mockWarehouse.incrementExperimentStats).toHaveBeenCalled());
+
+    // A refresh shows the same item again, plus a new one
+    service.recordImpressions(assignment, [item, other]);
+    await vi.waitFor(() =>
+      expect(mockWarehouse.incrementExperimentStats).toHaveBeenCalledTimes(2)
+    );
+
+    expect(mockWarehouse.incrementExperimentStats.mock.calls.map(([, , counts]) => counts)).toEqual(
+      [{ impressions: 1 }, { impressions: 1 }]
+    );
+  });
+
+  it("should count one click per item shown to the client", async () => {
+    service.recordImpressions(assignment, [item]);
+    await vi.waitFor(() => expect(impressions.size).toBe(1));
+
+    expect(await service.recordClick(assignment, { source: item.source, id: item.id })).toBe(
+      "gravity-1.8"
+    );
+    expect(await service.recordClick(assignment, { source: item.source, id: item.id })).toBeNull();
+
+    expect(mockWarehouse.incrementExperimentStats).toHaveBeenCalledWith(
+      "gravity-2025-12",
+      "gravity-1.8",
+      { clicks: 1 }
+    );
+    expect(
+      mockWarehouse.incrementExperimentStats.mock.calls.filter(([, , counts]) => counts.clicks)
+    ).toHaveLength(1);
+  });
+
+  it("should ignore clicks on items the client was never shown", async () => {
+    service.recordImpressions({ ...assignment, clientId: "client-7" }, [item]);
+    await vi.waitFor(() => expect(impressions.size).toBe(1));
+
+    expect(await service.recordClick(assignment, { source: item.source, id: item.id })).toBeNull();
+    expect(
+      await service.recordClick(assignment, { source: Source.Lobsters, id: item.id })
+    ).toBeNull();
+    expect(mockWarehouse.incrementExperimentStats).not.toHaveBeenCalledWith(
+      expect.anything(),
+      expect.anything(),
+      { clicks: 1 }
+    );
+  });
+});
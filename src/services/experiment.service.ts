@@ -0,0 +1,131 @@
+import { inject, singleton } from "tsyringe";
+import { RankingConfigService } from "./ranking-config.service";
+import { DataWarehouseService } from "./data-warehouse.service";
+import { LoggerService } from "./logger.service";
+import { assignVariant } from "../utils/experiments";
+import type {
+  ExperimentAssignment,
+  ExperimentSummary,
+  NewsItem,
+  Source,
+  VariantStats,
+} from "../types";
+
+/**
+ * A/B experiments on ranking weights (defined in the ranking config).
+ * Clients are assigned by their X-Client-Id; impressions and clicks are
+ * counted per variant in the warehouse (experiment_stats). Only clicks on
+ * items the client was shown count (experiment_impressions).
+ */
+@singleton()
+export class ExperimentService {
+  constructor(
+    @inject(RankingConfigService) private rankingConfig: RankingConfigService,
+    @inject(DataWarehouseService) private dataWarehouse: DataWarehouseService,
+    @inject(LoggerService) private logger: LoggerService
+  ) {}
+
+  /**
+   * Variant of the client in the running experiment
+   * @returns null without a running experiment or client id
+   */
+  assign(clientId?: string | null): ExperimentAssignment | null {
+    const { experiment } = this.rankingConfig.get();
+    const id = clientId?.trim();
+    if (!experiment || !id) return null;
+
+    return assignVariant(experiment, id);
+  }
+
+  /**
+   * Counts the items served to a client, once per item (like clicks),
+   * so refreshes and re-fetched pages do not lower the CTR
+   */
+  recordImpressions(assignment: ExperimentAssignment, items: NewsItem[]): void {
+    if (items.length === 0) return;
+
+    this.dataWarehouse
+      .saveExperimentImpressions(
+        assignment.experimentId,
+        assignment.variant,
+        assignment.clientId,
+        items
+      )
+      .then((newImpressions) => {
+        if (newImpressions === 0) return;
+        return this.dataWarehouse.incrementExperimentStats(
+          assignment.experimentId,
+          assignment.variant,
+          { impressions: newImpressions }
+        );
+      })
+      .catch((error: Error) =>
+        this.logger.error("Error recording experiment impressions", { error })
+      );
+  }
+
+  /**
+   * Counts a click on an item, once per item shown to the client
+   * @returns The variant credited (the one the item was shown with),
+   * or null when the click was ignored
+   */
+  async recordClick(
+    assignment: ExperimentAssignment,
+    item: { source: Source; id: string }
+  ): Promise<string | null> {
+    const variant = await this.dataWarehouse.markExperimentClick(
+      assignment.experimentId,
+      assignment.clientId,
+      item.source,
+      item.id
+    );
+    if (!variant) return null;
+
+    await this.dataWarehouse.incrementExperimentStats(
+      assignment.experimentId,
+      variant,
+      { clicks: 1 }
+    );
+    return variant;
+  }
+
+  /**
+   * Click-through rate of each variant
+   * @param experimentId Defaults to the running experiment
+   * @returns null when no experiment is given nor running
+   */
+  async getSummary(experimentId?: string): Promise<ExperimentSummary | null> {
+    const running = this.rankingConfig.get().experiment;
+    const id = experimentId ?? running?.id;
+    if (!id) return null;
+
+    const stats = await this.dataWarehouse.getExperimentStats(id);
+    const active = running?.id === id;
+
+    // Variants of the running experiment are listed even before any traffic
+    const variantIds = new Set([
+      ...(active && running ? running.variants.map((variant) => variant.id) : []),
+      ...stats.map((stat) => stat.variant),
+    ]);
+
+    const variants: VariantStats[] = [...variantIds].map((variant) => {
+      const stat = stats.find((s) => s.variant === variant);
+      const impressions = stat?.impressions ?? 0;
+      const clicks = stat?.clicks ?? 0;
+
+      return {
+        variant,
+        impressions,
+        clicks,
+        ctr: impressions > 0 ? clicks / impressions : 0,
+      };
+    });
+
+    return {
+      experimentId: id,
+      active,
+      variants,
+      generatedAt: new Date().toISOString(),
+    };
+  }
+}
@@ -0,0 +1,123 @@
+import { inject, singleton } from "tsyringe";
+import { createHash } from "crypto";
+import { DataWarehouseService } from "./data-warehouse.service";
+import { LoggerService } from "./logger.service";
+import type { FeedSnapshot, FeedSort, NewsItem } from "../types";
+
+// Same ordering, same id: clients reading the same mix share one snapshot,
+// and every instance derives the same id
+function snapshotId(
+  sort: FeedSort,
+  items: NewsItem[],
+  variant: string,
+  filters: string
+): string {
+  const order = items.map((item) => `${item.source}:${item.id}`).join(",");
+  return createHash("sha1")
+    .update(`${sort}\n${variant}\n${filters}\n${order}`)
+    .digest("base64url")
+    .slice(0, 16);
+}
+
+/**
+ * Feed orderings frozen for pagination, so later pages neither skip nor
+ * repeat items while the mix is re-ranked. Kept in memory (bounded) and in
+ * the mixed_feed collection, so a cursor survives switching instances.
+ * A snapshot lives SNAPSHOT_TTL_MS after the last first page served from it.
+ */
+@singleton()
+export class FeedSnapshotService {
+  private readonly SNAPSHOT_TTL_MS = 30 * 60 * 1000;
+  private readonly MAX_SNAPSHOTS = 50;
+  private snapshots = new Map<string, FeedSnapshot>();
+
+  constructor(
+    @inject(DataWarehouseService) private warehouse: DataWarehouseService,
+    @inject(LoggerService) private logger: LoggerService
+  ) {}
+
+  /**
+   * Snapshot of an ordering (the existing one, with its expiration extended,
+   * when the ordering did not change). Experiment variants get their own
+   * snapshots, since their items carry the variant's scores.
+   * filters is the feedFiltersKey the ordering was filtered with,
+   * generatedAt when the mix it was ordered from was built (default: now).
+   */
+  async capture(
+    sort: FeedSort,
+    items: NewsItem[],
+    scope: { variant?: string; filters?: string; generatedAt?: string } = {}
+  ): Promise<FeedSnapshot> {
+    const filters = scope.filters ?? "";
+    const id = snapshotId(sort, items, scope.variant ?? "", filters);
+    const now = Date.now();
+    const existing = this.snapshots.get(id);
+
+    // Extending on every first page would write to Mongo on every request
+    if (
+      existing &&
+      new Date(existing.expiresAt).getTime() - now > this.SNAPSHOT_TTL_MS / 2
+    ) {
+      return existing;
+    }
+
+    const expiresAt = new Date(now + this.SNAPSHOT_TTL_MS).toISOString();
+    const snapshot: FeedSnapshot = existing
+      ? { ...existing, expiresAt }
+      : {
+          id,
+          sort,
+          filters,
+          items,
+          generatedAt: scope.generatedAt ?? new Date(now).toISOString(),
+          createdAt: new Date(now).toISOString(),
+          expiresAt,
+        };
+
+    this.remember(snapshot);
+    await this.warehouse.saveFeedSnapshot(snapshot);
+
+    if (!existing) {
+      this.logger.info("feed snapshot created", {
+        id,
+        sort,
+        filters,
+        items: items.length,
+      });
+    }
+
+    return snapshot;
+  }
+
+  /**
+   * @returns null when the snapshot expired (or never existed)
+   */
+  async get(id: string): Promise<FeedSnapshot | null> {
+    const cached = this.snapshots.get(id);
+    if (cached && new Date(cached.expiresAt).getTime() > Date.now()) {
+      return cached;
+    }
+
+    // Another instance may have created it
+    const stored = await this.warehouse.getFeedSnapshot(id);
+    if (stored) this.remember(stored);
+
+    return stored;
+  }
+
+  private remember(snapshot: FeedSnapshot): void {
+    const now = Date.now();
+    for (const [id, entry] of this.snapshots) {
+      if (new Date(entry.expiresAt).getTime() <= now) this.snapshots.delete(id);
+    }
+
+    // Re-inserting keeps the map ordered by last use
+    this.snapshots.delete(snapshot.id);
+    this.snapshots.set(snapshot.id, snapshot);
+
+    while (this.snapshots.size > this.MAX_SNAPSHOTS) {
+      const oldest = this.snapshots.keys().next().value as string;
+      this.snapshots.delete(oldest);
+    }
+  }
+}
@@ -0,0 +1,114 @@
+import "reflect-metadata";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { FeedStreamService, type FeedStreamConnection } from "./feed-stream.service";
+import { Source, type NewsItem, type SourceStatus } from "../types";
+
+const item = (id: string): NewsItem => ({
+  id,
+  title: `Story ${id}`,
+  author: "alice",
+  score: 10,
+  publishedAt: "2025-12-15T10:00:00.000Z",
+  source: Source.HackerNews,
+});
+
+const mockLogger = {
+  info: vi.fn(),
+  error: vi.fn(),
+  warn: vi.fn(),
+};
+
+describe("FeedStreamService", () => {
+  let top: NewsItem[];
+  let statuses: SourceStatus[];
+  let mixUpdated: () => void;
+  let service: FeedStreamService;
+  let connections: FeedStreamConnection[];
+
+  const mockSmartMix = {
+    onMixUpdated: vi.fn((listener: () => void) => {
+      mixUpdated = listener;
+    }),
+    fetchMix: vi.fn(async () => top),
+    getSourceStatuses: vi.fn(() => statuses),
+  };
+
+  // Opens a connection and waits for its first check (the baseline)
+  const connect = async (lastEventId?: string) => {
+    const connection = service.connect(lastEventId);
+    if (connection) connections.push(connection);
+    await vi.waitFor(() => expect(mockSmartMix.fetchMix).toHaveBeenCalled());
+    return connection;
+  };
+
+  const updateMix = async (items: NewsItem[]) => {
+    const calls = mockSmartMix.fetchMix.mock.calls.length;
+    top = items;
+    mixUpdated();
+    await vi.waitFor(() =>
+      expect(mockSmartMix.fetchMix.mock.calls.length).toBeGreaterThan(calls)
+    );
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    process.env.SSE_MAX_CONNECTIONS = "2";
+    top = [item("a"), item("b")];
+    statuses = [{ name: Source.HackerNews, ok: true }];
+    connections = [];
+    service = new FeedStreamService(mockSmartMix as any, mockLogger as any);
+  });
+
+  afterEach(() => {
+    connections.forEach((connection) => connection.close());
+    delete process.env.SSE_MAX_CONNECTIONS;
+  });
+
+  it("should push new items and rank changes of the top", async () => {
+    const connection = (await connect())!;
+
+    await updateMix([item("c"), item("a"), item("b")]);
+    const events = await connection.next(10);
+
+    expect(events.map((event) => event.type)).toEqual(["new-items", "rank-changes"]);
+    expect(events[0].data).toEqual({ items: [{ position: 1, item: item("c") }] });
+  });
+
+  it("should push source status changes", async () => {
+    const connection = (await connect())!;
+
+    statuses = [{ name: Source.HackerNews, ok: false, error: "timeout" }];
+    await updateMix(top);
+    const events = await connection.next(10);
+
+    expect(events).toEqual([
+      expect.objectContaining({ type: "source-status", data: { sources: statuses } }),
+    ]);
+  });
+
+  it("should replay the events missed since Last-Event-ID", async () => {
+    const first = (await connect())!;
+    await updateMix([item("c"), item("a"), item("b")]);
+    await updateMix([item("d"), item("c"), item("a"), item("b")]);
+    const [seen, ...missed] = await first.next(10);
+    first.close();
+
+    const resumed = (await connect(seen.id))!;
+    expect(await resumed.next(10)).toEqual(missed);
+
+    const unknown = (await connect("other-3"))!;
+    const [reset] = await unknown.next(10);
+    expect(reset).toMatchObject({ type: "reset", data: { reason: "expired" } });
+  });
+
+  it("should refuse connections over SSE_MAX_CONNECTIONS", async () => {
+    await connect();
+    await connect();
+
+    expect(service.connect()).toBeNull();
+
+    connections[0].close();
+    expect(await connect()).not.toBeNull();
+  });
+});
@@ -0,0 +1,226 @@
+import { inject, singleton } from "tsyringe";
+import { SmartMixService } from "./smartmix.service";
+import { LoggerService } from "./logger.service";
+import { diffTopItems, sourceStatusesChanged } from "../utils/feed-diff";
+import type { FeedStreamEvent, NewsItem, SourceStatus } from "../types";
+
+type WithoutId<E> = E extends unknown ? Omit<E, "id"> : never;
+type FeedStreamPayload = WithoutId<FeedStreamEvent>;
+
+// A client this far behind gets a reset instead of the backlog
+const MAX_PENDING_EVENTS = 50;
+
+/**
+ * One /api/feed/stream client: the events waiting to be written to it
+ */
+export class FeedStreamConnection {
+  closed = false;
+  private pending: FeedStreamEvent[] = [];
+  private wake: (() => void) | null = null;
+
+  constructor(private onClose: (connection: FeedStreamConnection) => void) {}
+
+  push(event: FeedStreamEvent): void {
+    if (this.pending.length >= MAX_PENDING_EVENTS) {
+      this.pending = [{ id: event.id, type: "reset", data: { reason: "overflow" } }];
+    } else {
+      this.pending.push(event);
+    }
+    this.wake?.();
+  }
+
+  /**
+   * Waits up to timeoutMs for events
+   * @returns The pending events, or [] on timeout (time for a heartbeat) or once closed
+   */
+  async next(timeoutMs: number): Promise<FeedStreamEvent[]> {
+    if (this.pending.length === 0 && !this.closed) {
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(resolve, timeoutMs);
+        this.wake = () => {
+          clearTimeout(timer);
+          resolve();
+        };
+      });
+      this.wake = null;
+    }
+    return this.pending.splice(0);
+  }
+
+  close(): void {
+    if (this.closed) return;
+    this.closed = true;
+    this.onClose(this);
+    this.wake?.();
+  }
+}
+
+/**
+ * Live changes of the top of the hot feed for /api/feed/stream: items entering
+ * the top, rank changes and source status changes, checked whenever SmartMix
+ * builds a new mix. While clients are connected the mix is refreshed
+ * periodically, since they no longer poll /api/feed. The last events are
+ * buffered so a reconnecting client (Last-Event-ID) gets the ones it missed.
+ */
+@singleton()
+export class FeedStreamService {
+  readonly HEARTBEAT_INTERVAL_MS = 25 * 1000;
+  private readonly REFRESH_INTERVAL_MS = 60 * 1000;
+  private readonly TOP_N = 30;
+  private readonly MAX_BUFFERED_EVENTS = 100;
+  private readonly maxConnections =
+    Number(process.env.SSE_MAX_CONNECTIONS) || 100;
+
+  // Event ids are "<stream>-<sequence>"; the stream changes on every start
+  private readonly streamId = Date.now().toString(36);
+  private sequence = 0;
+  private buffer: FeedStreamEvent[] = [];
+
+  private connections = new Set<FeedStreamConnection>();
+  private previousTop: NewsItem[] | null = null;
+  private previousStatuses: SourceStatus[] | null = null;
+  private checking: Promise<void> = Promise.resolve();
+  private refreshTaskId: ReturnType<typeof setInterval> | null = null;
+
+  constructor(
+    @inject(SmartMixService) private smartMix: SmartMixService,
+    @inject(LoggerService) private logger: LoggerService
+  ) {
+    this.smartMix.onMixUpdated(() => this.scheduleCheck());
+  }
+
+  /**
+   * Opens a connection, with the events missed since lastEventId already
+   * queued (or a reset when they are no longer buffered)
+   * @returns null when this instance is at SSE_MAX_CONNECTIONS
+   */
+  connect(lastEventId?: string): FeedStreamConnection | null {
+    if (this.connections.size >= this.maxConnections) {
+      this.logger.warn("feed stream connection limit reached", {
+        maxConnections: this.maxConnections,
+      });
+      return null;
+    }
+
+    const connection = new FeedStreamConnection((closed) =>
+      this.disconnect(closed)
+    );
+    this.connections.add(connection);
+    if (lastEventId) {
+      for (const event of this.eventsSince(lastEventId)) {
+        connection.push(event);
+      }
+    }
+
+    if (this.connections.size === 1) this.startRefresh();
+    this.logger.info("feed stream connected", {
+      connections: this.connections.size,
+    });
+
+    return connection;
+  }
+
+  private disconnect(connection: FeedStreamConnection): void {
+    this.connections.delete(connection);
+    if (this.connections.size === 0) this.stopRefresh();
+    this.logger.info("feed stream disconnected", {
+      connections: this.connections.size,
+    });
+  }
+
+  private eventsSince(lastEventId: string): FeedStreamEvent[] {
+    const separator = lastEventId.lastIndexOf("-");
+    const streamId = lastEventId.slice(0, separator);
+    const sequence = Number(lastEventId.slice(separator + 1));
+    const firstBuffered = this.sequence - this.buffer.length + 1;
+
+    if (
+      streamId !== this.streamId ||
+      !Number.isInteger(sequence) ||
+      sequence < firstBuffered - 1 ||
+      sequence > this.sequence
+    ) {
+      return [
+        {
+          id: `${this.streamId}-${this.sequence}`,
+          type: "reset",
+          data: { reason: "expired" },
+        },
+      ];
+    }
+
+    return this.buffer.slice(sequence - firstBuffered + 1);
+  }
+
+  private startRefresh(): void {
+    // Rebuilds the mix once its cache expires, which triggers a check
+    this.refreshTaskId = setInterval(
+      () => this.scheduleCheck(),
+      this.REFRESH_INTERVAL_MS
+    );
+    this.scheduleCheck();
+  }
+
+  private stopRefresh(): void {
+    if (this.refreshTaskId) {
+      clearInterval(this.refreshTaskId);
+      this.refreshTaskId = null;
+    }
+  }
+
+  // One check at a time, so every diff starts from the previous one
+  private scheduleCheck(): void {
+    this.checking = this.checking
+      .then(() => this.checkForChanges())
+      .catch((error) =>
+        this.logger.error("feed stream check failed", {
+          error: error instanceof Error ? error.message : String(error),
+        })
+      );
+  }
+
+  private async checkForChanges(): Promise<void> {
+    const top = (await this.smartMix.fetchMix("hot")).slice(0, this.TOP_N);
+    const statuses = this.smartMix.getSourceStatuses();
+
+    if (this.previousTop) {
+      const { entered, changes } = diffTopItems(this.previousTop, top);
+      if (entered.length > 0) {
+        this.publish({ type: "new-items", data: { items: entered } });
+      }
+      if (changes.length > 0) {
+        this.publish({ type: "rank-changes", data: { changes } });
+      }
+    }
+    if (
+      this.previousStatuses &&
+      sourceStatusesChanged(this.previousStatuses, statuses)
+    ) {
+      this.publish({ type: "source-status", data: { sources: statuses } });
+    }
+
+    this.previousTop = top;
+    this.previousStatuses = statuses;
+  }
+
+  private publish(payload: FeedStreamPayload): void {
+    this.sequence++;
+    const event = {
+      id: `${this.streamId}-${this.sequence}`,
+      ...payload,
+    } as FeedStreamEvent;
+
+    this.buffer.push(event);
+    if (this.buffer.length > this.MAX_BUFFERED_EVENTS) this.buffer.shift();
+
+    for (const connection of this.connections) {
+      connection.push(event);
+    }
+
+    this.logger.info("feed stream event", {
+      type: event.type,
+      id: event.id,
+      connections: this.connections.size,
+    });
+  }
+}
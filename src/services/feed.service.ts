@@ -1,209 +1,223 @@
 import { singleton, inject } from "tsyringe";
 import { SmartMixService } from "./smartmix.service";
-import { DevToService } from "./devto.service";
-import { LobstersService } from "./lobsters.service";
-import { LoggerService } from "./logger.service";
-import { EnrichmentService } from "./enrichment.service";
+import { SourceRegistryService } from "./source-registry.service";
+import { VelocityService } from "./velocity.service";
 import { RankingService } from "./ranking.service";
-import { PersistenceService } from "./persistence.service";
-import {
+import { DataWarehouseService } from "./data-warehouse.service";
+import { ExperimentService } from "./experiment.service";
+import { LoggerService } from "./logger.service";
+import { CursorError } from "../errors";
+import type {
+  ExperimentAssignment,
+  FeedFilters,
+  NewsItem,
+  FeedItem,
+  FeedResponse,
+  FeedSort,
+  ItemDetail,
+  ItemRankExplanation,
+  RankExplanation,
+  RankingWeights,
   Source,
-  type NewsItem,
-  type FeedItem,
-  type FeedResponse,
-  type SourceStatus,
-  type RankedNewsItem,
+  SourceStatus,
 } from "../types";
 
-interface SourceFetchResult {
-  items: NewsItem[];
-  error?: string;
-}
-
-function handleSourceResult(
-  result: PromiseSettledResult<NewsItem[]>,
-  source: Source
-): SourceFetchResult {
-  if (result.status === "fulfilled") {
-    return { items: result.value };
-  }
-  const errorMsg =
-    result.reason instanceof Error
-      ? result.reason.message
-      : String(result.reason);
-  return { items: [], error: errorMsg };
-}
-
 @singleton()
 export class FeedService {
   constructor(
     @inject(SmartMixService) private smartMixService: SmartMixService,
-    @inject(DevToService) private devToService: DevToService,
-    @inject(LobstersService) private lobstersService: LobstersService,
-    @inject(LoggerService) private logger: LoggerService,
-    @inject(EnrichmentService) private enrichmentService: EnrichmentService,
+    @inject(SourceRegistryService) private sourceRegistry: SourceRegistryService,
+    @inject(VelocityService) private velocityService: VelocityService,
     @inject(RankingService) private rankingService: RankingService,
-    @inject(PersistenceService) private persistenceService: PersistenceService
+    @inject(DataWarehouseService) private dataWarehouse: DataWarehouseService,
+    @inject(ExperimentService) private experimentService: ExperimentService,
+    @inject(LoggerService) private logger: LoggerService
   ) {}
 
-  async fetchFeed(limit: number, after?: string): Promise<FeedResponse> {
-    this.logger.info("fetching unified feed", { limit, after });
-
-    const [mixResult, devToResult, lobstersResult] = await Promise.allSettled([
-      this.smartMixService.fetchMix(),
-      this.devToService.fetchNews(),
-      this.lobstersService.fetchNews(),
-    ]);
-
-    const mixData = handleSourceResult(mixResult, Source.TabNews);
-    const devToData = handleSourceResult(devToResult, Source.DevTo);
-    const lobstersData = handleSourceResult(lobstersResult, Source.Lobsters);
-
-    const [enrichedDevTo, enrichedLobsters] = await Promise.all([
-      devToData.items.length > 0
-        ? this.enrichAndRank(devToData.items, Source.DevTo)
-        : [],
-      lobstersData.items.length > 0
-        ? this.enrichAndRank(lobstersData.items, Source.Lobsters)
-        : [],
-    ]);
-
-    const allNews = [
-      ...mixData.items,
-      ...enrichedDevTo,
-      ...enrichedLobsters,
-    ];
-
-    const bySource: Record<string, NewsItem[]> = {
-      TabNews: [],
-      HackerNews: [],
-      DevTo: [],
-      Lobsters: [],
-      Twitter: [],
-    };
-
-    allNews.forEach((news) => {
-      if (bySource[news.source]) {
-        bySource[news.source].push(news);
-      }
-    });
-
-    Object.keys(bySource).forEach((source) => {
-      bySource[source].sort((a, b) => b.score - a.score);
+  async fetchFeed(
+    limit: number,
+    after?: string,
+    sort: FeedSort = "hot",
+    options: {
+      explain?: boolean;
+      assignment?: ExperimentAssignment | null;
+      filters?: FeedFilters;
+    } = {}
+  ): Promise<FeedResponse> {
+    const assignment = options.assignment ?? undefined;
+    this.logger.info("fetching unified feed", {
+      limit,
+      after,
+      sort,
+      variant: assignment?.variant,
+      filters: options.filters,
     });
 
-    // Build sources status array
-    // Note: mixResult contains TabNews + HackerNews combined, so we derive their status from mixData
-    const sources: SourceStatus[] = [
-      { name: Source.TabNews, ok: !mixData.error, error: mixData.error },
-      { name: Source.HackerNews, ok: !mixData.error, error: mixData.error },
-      { name: Source.DevTo, ok: !devToData.error, error: devToData.error },
-      {
-        name: Source.Lobsters,
-        ok: !lobstersData.error,
-        error: lobstersData.error,
-      },
-      { name: Source.Twitter, ok: !mixData.error, error: mixData.error },
-    ];
-
-    const sourceOrder = [
-      Source.TabNews,
-      Source.HackerNews,
-      Source.Twitter,
-      Source.DevTo,
-      Source.Lobsters,
-    ];
-
-    this.logger.info("Feed distribution", {
-      TabNews: bySource.TabNews.length,
-      HackerNews: bySource.HackerNews.length,
-      Twitter: bySource.Twitter.length,
-      DevTo: bySource.DevTo.length,
-      Lobsters: bySource.Lobsters.length,
-    });
-
-    const interleaved: NewsItem[] = [];
-    const maxLength = Math.max(
-      ...sourceOrder.map((s) => bySource[s].length)
-    );
-
-    for (let i = 0; i < maxLength; i++) {
-      for (const source of sourceOrder) {
-        if (i < bySource[source].length) {
-          interleaved.push(bySource[source][i]);
-        }
-      }
+    let page: {
+      items: NewsItem[];
+      nextCursor: string | null;
+      generatedAt: string | null;
+    } = {
+      items: [],
+      nextCursor: null,
+      generatedAt: null,
+    };
+    let sources: SourceStatus[];
+
+    try {
+      // Ordering, dedup and cursor are resolved per strategy by SmartMix
+      page = await this.smartMixService.fetchMixPaginated(
+        limit,
+        after,
+        sort,
+        assignment,
+        options.filters
+      );
+      sources = this.smartMixService.getSourceStatuses();
+    } catch (error) {
+      // A bad cursor is the client's error, not a source failure
+      if (error instanceof CursorError) throw error;
+
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      sources = this.sourceRegistry.getEnabled().map((source) => ({
+        name: source.id,
+        ok: false,
+        error: errorMsg,
+      }));
     }
 
+    const velocities = await this.velocityService.getVelocities(page.items);
+
     // Convert to FeedItem format
-    const feedItems: FeedItem[] = interleaved.map((news) => ({
+    const feedItems: FeedItem[] = page.items.map((news) => ({
       type: "news",
       ...news,
+      trend: velocities.get(`${news.source}:${news.id}`)?.trend ?? "steady",
+      ...(options.explain
+        ? { explain: this.explain(news, assignment?.weights) }
+        : {}),
     }));
 
-    // Filter by cursor
-    let startIdx = 0;
-    if (after) {
-      const cursorIdx = feedItems.findIndex((item) => item.id === after);
-      if (cursorIdx >= 0) {
-        startIdx = cursorIdx + 1;
-      }
-    }
-
-    const finalItems = feedItems.slice(startIdx, startIdx + limit);
-
     this.logger.info("feed prepared", {
       sources: sources.map((s) => ({ name: s.name, ok: s.ok })),
-      total: finalItems.length,
+      total: feedItems.length,
+      sort,
     });
 
-    const nextCursor =
-      finalItems.length === limit ? finalItems[finalItems.length - 1].id : null;
+    if (!assignment) {
+      return {
+        items: feedItems,
+        nextCursor: page.nextCursor,
+        generatedAt: page.generatedAt,
+        sources,
+      };
+    }
 
-    return { items: finalItems, nextCursor, sources };
+    this.experimentService.recordImpressions(assignment, feedItems);
+
+    return {
+      items: feedItems,
+      nextCursor: page.nextCursor,
+      generatedAt: page.generatedAt,
+      sources,
+      experiment: { id: assignment.experimentId, variant: assignment.variant },
+    };
   }
 
-  private async enrichAndRank(items: NewsItem[], source: Source): Promise<NewsItem[]> {
-    const enriched = await this.enrichmentService.enrichBatch(items);
-
-    const ranked: RankedNewsItem[] = enriched
-      .map((e, index) => {
-        const itemWithTechScore: NewsItem = {
-          ...e.rawData,
-          techScore: e.techScore,
-        };
-
-        const calculatedScore = this.rankingService.calculateRank(itemWithTechScore);
-
-        return {
-          source,
-          itemId: e.itemId,
-          data: {
-            ...e.rawData,
-            score: calculatedScore,
-            techScore: e.techScore,
-          },
-          rank: 0,
-          calculatedScore,
-          originalScore: e.rawData.score,
-          techScore: e.techScore,
-          keywords: e.keywords,
-          rankedAt: new Date(),
-        };
-      })
-      .sort((a, b) => b.calculatedScore - a.calculatedScore)
-      .map((item, index) => ({ ...item, rank: index + 1 }));
-
-    this.persistenceService
-      .persistAll({
-        raw: [{ items, source }],
-        enriched: [{ items: enriched, source }],
-        ranked: [{ items: ranked, source }],
-      })
-      .catch((error) =>
-        this.logger.error(`Error persisting ${source} to warehouse`, { error })
-      );
+  /**
+   * Hot rank breakdown of an item, from the cached mix or the warehouse
+   * @returns null when the item was never ranked
+   */
+  async explainItem(
+    source: Source,
+    id: string
+  ): Promise<ItemRankExplanation | null> {
+    const item =
+      (await this.smartMixService.findCachedItem(source, id)) ??
+      (await this.dataWarehouse.getRankedNewsItem(source, id));
+    if (!item) return null;
+
+    return { source, id, title: item.title, explain: this.explain(item) };
+  }
 
-    return ranked.map((r) => r.data);
+  /**
+   * Latest version of an item with its enrichment, ranking and fetch times,
+   * from the cached mix first and the warehouse second
+   * @returns null when the item was never fetched
+   */
+  async getItemDetail(source: Source, id: string): Promise<ItemDetail | null> {
+    const [cached, feedPosition, records] = await Promise.all([
+      this.smartMixService.findCachedItem(source, id),
+      this.smartMixService.findFeedPosition(source, id),
+      this.dataWarehouse.getItemRecords(source, id),
+    ]);
+    const { raw, enriched, ranked } = records;
+
+    const latest =
+      cached ?? raw?.item ?? ranked?.data ?? enriched?.rawData ?? null;
+    if (!latest) return null;
+
+    // Ranked items carry the hot rank in score
+    const item: NewsItem = {
+      ...latest,
+      score: cached?.originalScore ?? ranked?.originalScore ?? latest.score,
+    };
+
+    let enrichment: ItemDetail["enrichment"] = null;
+    if (enriched) {
+      enrichment = {
+        techScore: enriched.techScore,
+        techScoreConfidence: enriched.techScoreConfidence,
+        techScoreOrigin: enriched.techScoreOrigin ?? null,
+        keywords: enriched.keywords,
+        isTechNews: enriched.isTechNews,
+        linkMetadata: enriched.linkMetadata ?? null,
+        enrichedAt: new Date(enriched.enrichedAt).toISOString(),
+      };
+    } else if (cached?.techScore !== undefined) {
+      enrichment = {
+        techScore: cached.techScore,
+        techScoreConfidence: null,
+        techScoreOrigin: cached.techScoreOrigin ?? null,
+        keywords: cached.keywords ?? [],
+        isTechNews: null,
+        linkMetadata: null,
+        enrichedAt: null,
+      };
+    }
+
+    const calculatedScore = cached?.score ?? ranked?.calculatedScore;
+    const ranking: ItemDetail["ranking"] =
+      calculatedScore === undefined
+        ? null
+        : {
+            calculatedScore,
+            rank: ranked?.rank ?? null,
+            feedPosition,
+            clusterId: cached?.clusterId ?? ranked?.clusterId ?? null,
+            rankedAt: ranked ? new Date(ranked.rankedAt).toISOString() : null,
+          };
+
+    return {
+      source,
+      id,
+      item,
+      enrichment,
+      ranking,
+      firstSeenAt: raw?.firstSeenAt?.toISOString() ?? null,
+      lastSeenAt: raw?.fetchedAt.toISOString() ?? null,
+    };
+  }
+
+  // Ranked items carry the hot rank in score, the source score in originalScore;
+  // merged stories were ranked from rankedFrom (see mergeDuplicateStories)
+  private explain(
+    item: NewsItem,
+    weights?: Partial<RankingWeights>
+  ): RankExplanation {
+    return this.rankingService.explainRank(
+      { ...item, score: item.originalScore ?? item.score, ...item.rankedFrom },
+      weights
+    );
   }
 }
@@ -0,0 +1,125 @@
+import "reflect-metadata";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { HackerNewsService, isHackerNewsList } from "./hackernews.service";
+import type { HackerNewsCommentNode, HackerNewsItem } from "../types";
+
+describe("isHackerNewsList", () => {
+  it("should accept the listing modes", () => {
+    expect(["top", "best", "new", "ask", "show", "job"].every(isHackerNewsList)).toBe(
+      true
+    );
+  });
+
+  it("should reject inherited object keys", () => {
+    for (const value of ["toString", "constructor", "__proto__", "hasOwnProperty"]) {
+      expect(isHackerNewsList(value)).toBe(false);
+    }
+  });
+});
+
+describe("HackerNewsService.fetchCommentTree", () => {
+  const mockCache = {
+    get: vi.fn().mockResolvedValue(null),
+    set: vi.fn().mockResolvedValue(undefined),
+  };
+  const mockLogger = { info: vi.fn(), error: vi.fn(), warn: vi.fn() };
+
+  let items: Record<number, Partial<HackerNewsItem> | null>;
+  let fetchMock: ReturnType<typeof vi.fn>;
+  let service: HackerNewsService;
+
+  const comment = (id: number, parent: number, kids?: number[]) => ({
+    id,
+    parent,
+    kids,
+    by: `user${id}`,
+    text: `comment ${id}`,
+    time: 1765792800,
+    type: "comment",
+  });
+
+  const ids = (nodes: HackerNewsCommentNode[]): unknown[] =>
+    nodes.map((node) =>
+      node.children.length > 0 ? [node.item.id, ids(node.children)] : node.item.id
+    );
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    // Story 1: 2 -> (4 -> 6), 3 (deleted, with reply 5), 7 (dead)
+    items = {
+      1: { id: 1, type: "story", kids: [2, 3, 7] },
+      2: comment(2, 1, [4]),
+      3: { ...comment(3, 1, [5]), deleted: true },
+      4: comment(4, 2, [6]),
+      5: comment(5, 3),
+      6: comment(6, 4),
+      7: { ...comment(7, 1), dead: true },
+    };
+    fetchMock = vi.fn(async (url: string) => {
+      const id = Number(url.match(/item\/(\d+)\.json/)![1]);
+      if (id === 99) return new Response("error", { status: 500 });
+      return new Response(JSON.stringify(items[id] ?? null));
+    });
+    vi.stubGlobal("fetch", fetchMock);
+
+    service = new HackerNewsService(
+      mockCache as any,
+      {} as any,
+      mockLogger as any,
+      {} as any,
+      {} as any
+    );
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const fetchedIds = () =>
+    fetchMock.mock.calls.map(([url]) => Number(String(url).match(/item\/(\d+)/)![1]));
+
+  it("should build the tree, skipping deleted and dead comments with their replies", async () => {
+    const tree = await service.fetchCommentTree(1, { maxDepth: 5, maxComments: 100 });
+
+    expect(ids(tree!)).toEqual([[2, [[4, [6]]]]]);
+    expect(fetchedIds()).not.toContain(5);
+    expect(mockCache.set).toHaveBeenCalledWith("comments:hackernews:1:5:100", tree);
+  });
+
+  it("should stop at maxDepth", async () => {
+    const tree = await service.fetchCommentTree(1, { maxDepth: 2, maxComments: 100 });
+
+    expect(ids(tree!)).toEqual([[2, [4]]]);
+    expect(fetchedIds()).not.toContain(6);
+  });
+
+  it("should spend the comment budget on upper levels first", async () => {
+    const tree = await service.fetchCommentTree(1, { maxDepth: 5, maxComments: 3 });
+
+    // The 3 top-level comments use the whole budget
+    expect(ids(tree!)).toEqual([2]);
+    expect(fetchedIds()).toEqual([1, 2, 3, 7]);
+  });
+
+  it("should drop comments that fail to load", async () => {
+    items[1] = { id: 1, type: "story", kids: [99, 2] };
+
+    const tree = await service.fetchCommentTree(1, { maxDepth: 1, maxComments: 100 });
+
+    expect(ids(tree!)).toEqual([2]);
+  });
+
+  it("should return null for missing or deleted stories", async () => {
+    expect(await service.fetchCommentTree(404, { maxDepth: 5, maxComments: 10 })).toBeNull();
+
+    items[1] = { id: 1, type: "story", deleted: true };
+    expect(await service.fetchCommentTree(1, { maxDepth: 5, maxComments: 10 })).toBeNull();
+  });
+
+  it("should serve the cached tree without fetching", async () => {
+    mockCache.get.mockResolvedValueOnce([]);
+
+    expect(await service.fetchCommentTree(1, { maxDepth: 5, maxComments: 10 })).toEqual([]);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
@@ -1,102 +1,158 @@
 import { inject, singleton } from "tsyringe";
-import type { HackerNewsItem, NewsItem } from "../types";
+import type {
+  Comment,
+  CommentTreeOptions,
+  DiscussionComment,
+  HackerNewsCommentNode,
+  HackerNewsItem,
+  HackerNewsList,
+  NewsItem,
+} from "../types";
 import { CacheKey, Source } from "../types";
 import { CacheService } from "./cache.service";
 import { GeminiService } from "./gemini.service";
 import { LoggerService } from "./logger.service";
-import { capScoreForCodeHostingSites } from "../utils/scoring";
+import { RankingConfigService } from "./ranking-config.service";
+import {
+  capTechScore,
+  readCachedTechScore,
+  type SourceTechScore,
+} from "../utils/scoring";
 import { LinkScraperService } from "./link-scraper.service";
+import { mapWithConcurrency } from "../utils/concurrency";
+import { htmlToMarkdown } from "../utils/markdown";
+
+// Firebase listing endpoint for each list mode
+const LIST_ENDPOINTS: Record<HackerNewsList, string> = {
+  top: "topstories",
+  best: "beststories",
+  new: "newstories",
+  ask: "askstories",
+  show: "showstories",
+  job: "jobstories",
+};
+
+export const HACKER_NEWS_LISTS = Object.keys(LIST_ENDPOINTS) as HackerNewsList[];
+
+export function isHackerNewsList(value: string): value is HackerNewsList {
+  return (HACKER_NEWS_LISTS as string[]).includes(value);
+}
 
 @singleton()
 export class HackerNewsService {
   private readonly HN_BASE_URL = "https://hacker-news.firebaseio.com/v0";
-  private readonly MIN_TECH_SCORE = 61; // Minimum score to consider tech-related
   private readonly BATCH_SIZE = 30; // Items per batch
-  private fetchLocks: Map<number, Promise<NewsItem[]>> = new Map(); // Lock per batch
-  private topStoriesIds: number[] | null = null; // Cache all IDs
-  private topStoriesIdsFetchLock: Promise<number[]> | null = null;
+  private readonly ID_LIST_TTL_MS = 5 * 60 * 1000; // Listings change constantly
+  private readonly COMMENT_FETCH_CONCURRENCY = 10; // Parallel item requests per comment tree
+  private fetchLocks: Map<string, Promise<NewsItem[]>> = new Map(); // Lock per list + batch
+  private storyIds: Map<HackerNewsList, { ids: number[]; fetchedAt: number }> =
+    new Map(); // Cache ID list per listing
+  private storyIdsFetchLocks: Map<HackerNewsList, Promise<number[]>> = new Map();
 
   constructor(
     @inject(CacheService) private cacheService: CacheService,
     @inject(GeminiService) private geminiService: GeminiService,
     @inject(LoggerService) private logger: LoggerService,
     @inject(LinkScraperService) private linkScraperService: LinkScraperService,
+    @inject(RankingConfigService)
+    private rankingConfig: RankingConfigService,
   ) {}
 
   /**
-   * Fetches all top stories IDs from HackerNews (cached in memory)
+   * Fetches all story IDs of a listing (cached in memory for ID_LIST_TTL_MS)
    */
-  private async fetchTopStoriesIds(): Promise<number[]> {
+  private async fetchStoryIds(list: HackerNewsList): Promise<number[]> {
     // Check memory cache first
-    if (this.topStoriesIds) {
-      return this.topStoriesIds;
+    const cached = this.storyIds.get(list);
+    if (cached && Date.now() - cached.fetchedAt < this.ID_LIST_TTL_MS) {
+      return cached.ids;
     }
 
     // Check if fetch is already in progress
-    if (this.topStoriesIdsFetchLock) {
-      return this.topStoriesIdsFetchLock;
+    const existingLock = this.storyIdsFetchLocks.get(list);
+    if (existingLock) {
+      return existingLock;
     }
 
     // Create fetch promise with lock
-    this.topStoriesIdsFetchLock = (async () => {
-      const idsRes = await fetch(`${this.HN_BASE_URL}/topstories.json`);
+    const fetchPromise = (async () => {
+      const idsRes = await fetch(
+        `${this.HN_BASE_URL}/${LIST_ENDPOINTS[list]}.json`,
+      );
       if (!idsRes.ok) {
         throw new Error("Falha ao carregar IDs do Hacker News");
       }
       const ids = (await idsRes.json()) as number[];
-      this.topStoriesIds = ids;
-      this.logger.info(`Loaded ${ids.length} top story IDs from HackerNews`);
+      this.storyIds.set(list, { ids, fetchedAt: Date.now() });
+      this.logger.info(`Loaded ${ids.length} ${list} story IDs from HackerNews`);
       return ids;
     })();
+    this.storyIdsFetchLocks.set(list, fetchPromise);
 
     try {
-      const result = await this.topStoriesIdsFetchLock;
-      return result;
+      return await fetchPromise;
+    } catch (error) {
+      // Serve a stale list rather than failing the whole batch
+      if (cached) {
+        this.logger.warn(`Using stale ${list} story IDs from HackerNews`, {
+          error: error instanceof Error ? error.message : String(error),
+        });
+        return cached.ids;
+      }
+      throw error;
     } finally {
-      this.topStoriesIdsFetchLock = null;
+      this.storyIdsFetchLocks.delete(list);
     }
   }
 
   /**
    * Fetches a batch of HackerNews stories
    * @param batch - Batch number (0-indexed: 0 = items 0-29, 1 = items 30-59, etc.)
+   * @param list - Listing to read from (top, best, new, ask, show or job)
    * @returns Array of filtered NewsItems from that batch
    */
-  async fetchBatch(batch: number): Promise<NewsItem[]> {
+  async fetchBatch(
+    batch: number,
+    list: HackerNewsList = "top",
+  ): Promise<NewsItem[]> {
     // Check cache first
-    const cacheKey = `${CacheKey.HackerNews}:batch:${batch}`;
+    const cacheKey = `${CacheKey.HackerNews}:${list}:batch:${batch}`;
     const cached = await this.cacheService.get<NewsItem[]>(cacheKey);
     if (cached) {
-      this.logger.info(`HackerNews batch ${batch} served from cache`);
+      this.logger.info(`HackerNews ${list} batch ${batch} served from cache`);
       return cached;
     }
 
     // Check if there's already a fetch in progress for this batch
-    const existingLock = this.fetchLocks.get(batch);
+    const lockKey = `${list}:${batch}`;
+    const existingLock = this.fetchLocks.get(lockKey);
     if (existingLock) {
       this.logger.info(
-        `HackerNews batch ${batch} fetch already in progress, waiting...`,
+        `HackerNews ${list} batch ${batch} fetch already in progress, waiting...`,
       );
       return existingLock;
     }
 
     // Create new fetch promise with lock
-    const fetchPromise = this.doFetchBatch(batch);
-    this.fetchLocks.set(batch, fetchPromise);
+    const fetchPromise = this.doFetchBatch(batch, list);
+    this.fetchLocks.set(lockKey, fetchPromise);
 
     try {
       const result = await fetchPromise;
       return result;
     } finally {
-      this.fetchLocks.delete(batch);
+      this.fetchLocks.delete(lockKey);
     }
   }
 
-  private async doFetchBatch(batch: number): Promise<NewsItem[]> {
-    this.logger.info(`Fetching HackerNews batch ${batch}...`);
+  private async doFetchBatch(
+    batch: number,
+    list: HackerNewsList,
+  ): Promise<NewsItem[]> {
+    this.logger.info(`Fetching HackerNews ${list} batch ${batch}...`);
 
-    // Get all top stories IDs
-    const allIds = await this.fetchTopStoriesIds();
+    // Get all story IDs of this listing
+    const allIds = await this.fetchStoryIds(list);
 
     // Calculate batch range
     const startIdx = batch * this.BATCH_SIZE;
@@ -104,12 +160,14 @@ export class HackerNewsService {
     const batchIds = allIds.slice(startIdx, endIdx);
 
     if (batchIds.length === 0) {
-      this.logger.info(`HackerNews batch ${batch} is empty (out of range)`);
+      this.logger.info(
+        `HackerNews ${list} batch ${batch} is empty (out of range)`,
+      );
       return [];
     }
 
     this.logger.info(
-      `Fetching ${batchIds.length} stories from HackerNews batch ${batch}...`,
+      `Fetching ${batchIds.length} stories from HackerNews ${list} batch ${batch}...`,
     );
 
     // Fetch all items in this batch in parallel
@@ -129,39 +187,195 @@ export class HackerNewsService {
     );
 
     // Map to NewsItem
-    const mapped = filtered.map((item) => ({
-      id: String(item.id),
-      title: item.title,
-      author: item.by,
-      score: item.score,
-      publishedAt: new Date(item.time * 1000).toISOString(),
-      source: Source.HackerNews,
-      url: item.url || `https://news.ycombinator.com/item?id=${item.id}`,
-      commentCount: item.descendants || 0,
-      body: item.text
-        ? this.linkScraperService.extractTextFromHTML(item.text)
-        : undefined,
-    }));
+    const mapped = filtered.map((item) => {
+      const tags = this.getTags(item);
 
-    // Filter by tech relevance using AI
-    const techFiltered = await this.filterByTechRelevance(mapped);
+      return {
+        id: String(item.id),
+        title: item.title,
+        author: item.by,
+        score: item.score,
+        publishedAt: new Date(item.time * 1000).toISOString(),
+        source: Source.HackerNews,
+        url: item.url || `https://news.ycombinator.com/item?id=${item.id}`,
+        commentCount: item.descendants || 0,
+        body: item.text
+          ? this.linkScraperService.extractTextFromHTML(item.text)
+          : undefined,
+        ...(tags.length > 0 && { tags }),
+      };
+    });
+
+    // Job postings are not news, the tech filter would reject nearly all of them
+    const techFiltered =
+      list === "job" ? mapped : await this.filterByTechRelevance(mapped);
 
     this.logger.info(
-      `HackerNews batch ${batch}: ${techFiltered.length}/${mapped.length} posts are tech-related`,
+      `HackerNews ${list} batch ${batch}: ${techFiltered.length}/${mapped.length} posts are tech-related`,
     );
 
     // Cache this batch for 5 minutes
-    const cacheKey = `${CacheKey.HackerNews}:batch:${batch}`;
+    const cacheKey = `${CacheKey.HackerNews}:${list}:batch:${batch}`;
     await this.cacheService.set(cacheKey, techFiltered);
     return techFiltered;
   }
 
+  /**
+   * Tags Show HN / Ask HN / Launch HN posts and job postings so the frontend can badge them
+   */
+  private getTags(item: HackerNewsItem): string[] {
+    const tags: string[] = [];
+    const title = item.title.toLowerCase();
+
+    if (title.startsWith("show hn")) tags.push("show_hn");
+    if (title.startsWith("ask hn")) tags.push("ask_hn");
+    if (title.startsWith("launch hn")) tags.push("launch_hn");
+    if (item.type === "job") tags.push("job");
+
+    return tags;
+  }
+
+  /**
+   * Fetches the comment tree of a story by walking its `kids`, level by level,
+   * so the comment budget is spent on top-level discussion first.
+   * Deleted and dead comments are skipped (with their replies).
+   * @returns The tree, or null when the story does not exist
+   */
+  async fetchCommentTree(
+    storyId: number,
+    options: CommentTreeOptions,
+  ): Promise<HackerNewsCommentNode[] | null> {
+    const cacheKey = `${CacheKey.HackerNewsComments}:${storyId}:${options.maxDepth}:${options.maxComments}`;
+    const cached = await this.cacheService.get<HackerNewsCommentNode[]>(cacheKey);
+    if (cached) return cached;
+
+    const story = await this.fetchItem(storyId);
+    if (!story || story.deleted) {
+      return null;
+    }
+
+    const roots: HackerNewsCommentNode[] = [];
+    const nodesById = new Map<number, HackerNewsCommentNode>();
+    let levelIds = story.kids ?? [];
+    let fetchedCount = 0;
+
+    for (
+      let depth = 1;
+      depth <= options.maxDepth && levelIds.length > 0;
+      depth++
+    ) {
+      const budget = options.maxComments - fetchedCount;
+      if (budget <= 0) break;
+
+      const ids = levelIds.slice(0, budget);
+      const items = await mapWithConcurrency(
+        ids,
+        this.COMMENT_FETCH_CONCURRENCY,
+        // A single failing comment should not fail the whole tree
+        (id) => this.fetchItem(id).catch(() => null),
+      );
+      fetchedCount += ids.length;
+
+      const nextLevelIds: number[] = [];
+      for (const item of items) {
+        if (!item || item.deleted || item.dead) continue;
+
+        const node: HackerNewsCommentNode = { item, children: [] };
+        nodesById.set(item.id, node);
+
+        const parent = item.parent !== undefined ? nodesById.get(item.parent) : undefined;
+        if (parent) {
+          parent.children.push(node);
+        } else {
+          roots.push(node);
+        }
+
+        nextLevelIds.push(...(item.kids ?? []));
+      }
+
+      levelIds = nextLevelIds;
+    }
+
+    this.logger.info(`Fetched ${nodesById.size} HackerNews comments for ${storyId}`, {
+      storyId,
+      requested: fetchedCount,
+    });
+
+    await this.cacheService.set(cacheKey, roots);
+    return roots;
+  }
+
+  /**
+   * Fetches the comment tree of a story in the shared Comment shape
+   * (HTML converted to plain text)
+   * @returns Comments, or null when the story does not exist
+   */
+  async fetchComments(
+    storyId: number,
+    options: CommentTreeOptions,
+  ): Promise<Comment[] | null> {
+    const tree = await this.fetchCommentTree(storyId, options);
+    if (!tree) return null;
+
+    const toComment = (node: HackerNewsCommentNode): Comment => ({
+      id: String(node.item.id),
+      parent_id: node.item.parent !== undefined ? String(node.item.parent) : null,
+      owner_username: node.item.by,
+      body: node.item.text
+        ? this.linkScraperService.extractTextFromHTML(node.item.text)
+        : "",
+      created_at: new Date(node.item.time * 1000).toISOString(),
+      children: node.children.map(toComment),
+    });
+
+    return tree.map(toComment);
+  }
+
+  /**
+   * Fetches the comment tree of a story as DiscussionComment
+   * (HTML converted to Markdown; HN does not expose comment scores)
+   * @returns Comments, or null when the story does not exist
+   */
+  async fetchDiscussion(
+    storyId: number,
+    options: CommentTreeOptions,
+  ): Promise<DiscussionComment[] | null> {
+    const tree = await this.fetchCommentTree(storyId, options);
+    if (!tree) return null;
+
+    const toDiscussion = (
+      node: HackerNewsCommentNode,
+      depth: number,
+    ): DiscussionComment => ({
+      id: String(node.item.id),
+      source: Source.HackerNews,
+      parentId: depth === 0 ? null : String(node.item.parent),
+      depth,
+      author: node.item.by,
+      body: node.item.text ? htmlToMarkdown(node.item.text) : "",
+      score: null,
+      createdAt: new Date(node.item.time * 1000).toISOString(),
+      permalink: `https://news.ycombinator.com/item?id=${node.item.id}`,
+      children: node.children.map((child) => toDiscussion(child, depth + 1)),
+    });
+
+    return tree.map((node) => toDiscussion(node, 0));
+  }
+
+  private async fetchItem(id: number): Promise<HackerNewsItem | null> {
+    const res = await fetch(`${this.HN_BASE_URL}/item/${id}.json`);
+    if (!res.ok) {
+      throw new Error(`Falha ao carregar item ${id} do Hacker News`);
+    }
+    return (await res.json()) as HackerNewsItem | null;
+  }
+
   /**
    * Legacy method for backward compatibility - fetches first batch only
    * @deprecated Use fetchBatch() instead for better control
    */
   async fetchNews(): Promise<NewsItem[]> {
-    return this.fetchBatch(0);
+    return this.fetchBatch(0, "top");
   }
 
   /**
@@ -173,11 +387,13 @@ export class HackerNewsService {
     const analysisPromises = items.map(async (item) => {
       // Check if we have cached score for this post
       const cacheKey = `tech-score:hn:${item.id}`;
-      const cachedScore = await this.cacheService.get<number>(cacheKey);
+      const cachedScore = await this.cacheService.get<number | SourceTechScore>(
+        cacheKey,
+      );
 
-      let score: number;
+      let score: SourceTechScore;
       if (cachedScore !== null) {
-        score = cachedScore;
+        score = readCachedTechScore(cachedScore);
       } else {
         // Analyze with AI (title + body if available)
         let tempScore = await this.geminiService.analyzeTechRelevance(
@@ -186,7 +402,7 @@ export class HackerNewsService {
         );
 
         // Cap score for code hosting sites
-        score = capScoreForCodeHostingSites(tempScore, item.url);
+        score = capTechScore(tempScore, item.url);
 
         // Cache score for 24 hours (86400 seconds)
         await this.cacheService.set(cacheKey, score, 86400);
@@ -198,12 +414,14 @@ export class HackerNewsService {
     // Wait for all analyses to complete
     const results = await Promise.all(analysisPromises);
 
-    // Filter items with score >= MIN_TECH_SCORE and attach techScore to each item
+    // Filter items with score >= minTechScore and attach techScore to each item
+    const { minTechScore } = this.rankingConfig.forSource(Source.HackerNews);
     const filtered = results
-      .filter(({ score }) => score >= this.MIN_TECH_SCORE)
+      .filter(({ score }) => score.score >= minTechScore)
       .map(({ item, score }) => ({
         ...item,
-        techScore: score, // Add AI score to NewsItem for ranking
+        techScore: score.score, // Add AI score to NewsItem for ranking
+        techScoreCapped: score.codeHostingCapped,
       }));
 
     return filtered;
@@ -0,0 +1,102 @@
+import { inject, singleton } from "tsyringe";
+import { DataWarehouseService } from "./data-warehouse.service";
+import { LoggerService } from "./logger.service";
+import type { AnalyticsPeriod, ItemHistory, Source } from "../types";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * Score/comment history of feed items (item_snapshots).
+ * Retention policy:
+ * - last 48h: every snapshot (one per fetch)
+ * - 48h to 7d: one snapshot per item per hour
+ * - 7d to 30d: one snapshot per item per day
+ * - older: expired by the TTL index
+ */
+@singleton()
+export class HistoryService {
+  private readonly FULL_RESOLUTION_MS = 48 * HOUR_MS;
+  private readonly HOURLY_RESOLUTION_MS = 7 * DAY_MS;
+  private readonly RETENTION_MS = 30 * DAY_MS;
+  private readonly MAINTENANCE_INTERVAL_MS = HOUR_MS;
+  private maintenanceTaskId: ReturnType<typeof setInterval> | null = null;
+
+  constructor(
+    @inject(DataWarehouseService) private warehouse: DataWarehouseService,
+    @inject(LoggerService) private logger: LoggerService
+  ) {}
+
+  async getHistory(
+    source: Source,
+    id: string,
+    period: AnalyticsPeriod
+  ): Promise<ItemHistory> {
+    const since = new Date(Date.now() - this.getPeriodMs(period));
+    const snapshots = await this.warehouse.getItemSnapshots(source, id, since);
+
+    return { source, id, period, snapshots };
+  }
+
+  /**
+   * Applies the downsampling policy
+   */
+  async downsample(): Promise<void> {
+    const now = Date.now();
+
+    const [hourly, daily] = await Promise.all([
+      this.warehouse.downsampleSnapshots(
+        new Date(now - this.HOURLY_RESOLUTION_MS),
+        new Date(now - this.FULL_RESOLUTION_MS),
+        HOUR_MS
+      ),
+      this.warehouse.downsampleSnapshots(
+        new Date(now - this.RETENTION_MS),
+        new Date(now - this.HOURLY_RESOLUTION_MS),
+        DAY_MS
+      ),
+    ]);
+
+    if (hourly + daily > 0) {
+      this.logger.info("Downsampled item snapshots", { hourly, daily });
+    }
+  }
+
+  /**
+   * Runs the downsampling periodically (in background)
+   */
+  startMaintenance(): void {
+    if (this.maintenanceTaskId) {
+      this.logger.warn("snapshot maintenance already running");
+      return;
+    }
+
+    this.maintenanceTaskId = setInterval(() => {
+      this.downsample().catch((error) =>
+        this.logger.error("snapshot maintenance failed", {
+          error: error instanceof Error ? error.message : String(error),
+        })
+      );
+    }, this.MAINTENANCE_INTERVAL_MS);
+  }
+
+  stopMaintenance(): void {
+    if (this.maintenanceTaskId) {
+      clearInterval(this.maintenanceTaskId);
+      this.maintenanceTaskId = null;
+    }
+  }
+
+  private getPeriodMs(period: AnalyticsPeriod): number {
+    switch (period) {
+      case "24h":
+        return DAY_MS;
+      case "7d":
+        return 7 * DAY_MS;
+      case "30d":
+        return 30 * DAY_MS;
+      default:
+        return DAY_MS;
+    }
+  }
+}
@@ -2,9 +2,18 @@ import { inject, singleton } from "tsyringe";
 import { CacheService } from "./cache.service";
 import { LoggerService } from "./logger.service";
 import { RankingService } from "./ranking.service";
-import { CacheKey, Source, type LobstersItem, type NewsItem } from "../types";
+import {
+  CacheKey,
+  Source,
+  type DiscussionComment,
+  type LobstersItem,
+  type LobstersStory,
+  type NewsItem,
+} from "../types";
+import { buildCommentTree } from "../utils/comments";
 
-const LOBSTERS_API = "https://lobste.rs/hottest.json";
+const LOBSTERS_URL = "https://lobste.rs";
+const LOBSTERS_API = `${LOBSTERS_URL}/hottest.json`;
 
 @singleton()
 export class LobstersService {
@@ -46,7 +55,7 @@ export class LobstersService {
           title: item.title,
           author: item.submitter_user,
           score: item.score,
-          publishedAt: item.created_at,
+          publishedAt: new Date(item.created_at).toISOString(), // created_at has a local offset
           source: Source.Lobsters,
           url: item.url || item.short_id_url, // Use short_id_url for text posts
           sourceUrl: item.short_id_url,
@@ -77,4 +86,41 @@ export class LobstersService {
       throw error;
     }
   }
+
+  /**
+   * Fetches the comments of a story (flat list linked by parent_comment)
+   * @param shortId - Story short id (e.g. "abc123")
+   * @returns Comment tree, or null when the story does not exist
+   */
+  async fetchDiscussion(shortId: string): Promise<DiscussionComment[] | null> {
+    const response = await fetch(
+      `${LOBSTERS_URL}/s/${encodeURIComponent(shortId)}.json`
+    );
+
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new Error(`Lobsters API error: ${response.status}`);
+    }
+
+    const story = (await response.json()) as LobstersStory;
+
+    return buildCommentTree(
+      (story.comments ?? []).map((comment) => {
+        const removed = comment.is_deleted || comment.is_moderated;
+        return {
+          id: comment.short_id,
+          source: Source.Lobsters,
+          parentId: comment.parent_comment,
+          depth: comment.depth,
+          // Removed comments are kept so their replies stay threaded
+          author: removed ? "[deleted]" : comment.commenting_user,
+          body: removed ? "[deleted]" : comment.comment_plain,
+          score: comment.score,
+          createdAt: comment.created_at,
+          permalink: comment.short_id_url,
+          children: [],
+        };
+      })
+    );
+  }
 }
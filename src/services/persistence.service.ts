@@ -3,6 +3,7 @@ import { LoggerService } from "./logger.service";
 import { ProcessingLogsService } from "./processing-logs.service";
 import { DataWarehouseService } from "./data-warehouse.service";
 import { CacheService } from "./cache.service";
+import { SearchService } from "./search.service";
 import type { NewsItem, EnrichedNewsItem, RankedNewsItem, Source } from "../types";
 
 interface RetryConfig {
@@ -23,7 +24,8 @@ export class PersistenceService {
     @inject(LoggerService) private logger: LoggerService,
     @inject(ProcessingLogsService) private processingLogs: ProcessingLogsService,
     @inject(DataWarehouseService) private warehouse: DataWarehouseService,
-    @inject(CacheService) private cache: CacheService
+    @inject(CacheService) private cache: CacheService,
+    @inject(SearchService) private search: SearchService
   ) {}
 
   async persistRawNews(
@@ -81,6 +83,8 @@ export class PersistenceService {
         () => this.warehouse.saveEnrichedNews(items, source),
         `persistEnrichedNews:${source}`
       );
+      // Without the warehouse, search falls back to an in-memory index
+      await this.search.index(items);
 
       this.logger.info(`Persisted ${items.length} enriched news from ${source}`);
       return { success: true, persistedCount: items.length };
@@ -124,6 +128,22 @@ export class PersistenceService {
     }
   }
 
+  async persistSnapshots(
+    items: RankedNewsItem[],
+    source: Source
+  ): Promise<{ success: boolean; persistedCount: number }> {
+    try {
+      await this.withRetry(
+        () => this.warehouse.saveItemSnapshots(items, source),
+        `persistSnapshots:${source}`
+      );
+      return { success: true, persistedCount: items.length };
+    } catch (error) {
+      this.logger.error(`Failed to persist item snapshots from ${source}`, { error });
+      return { success: false, persistedCount: 0 };
+    }
+  }
+
   async persistMixedFeed(
     items: NewsItem[],
     cacheKey: string
@@ -170,12 +190,14 @@ export class PersistenceService {
     raw: { success: boolean; count: number };
     enriched: { success: boolean; count: number };
     ranked: { success: boolean; count: number };
+    snapshots: { success: boolean; count: number };
     mixed: { success: boolean };
   }> {
     const results = {
       raw: { success: true, count: 0 },
       enriched: { success: true, count: 0 },
       ranked: { success: true, count: 0 },
+      snapshots: { success: true, count: 0 },
       mixed: { success: true },
     };
 
@@ -211,6 +233,13 @@ export class PersistenceService {
             results.ranked.count += r.persistedCount;
           })
         );
+        // Every ranked batch also extends the items' history
+        operations.push(
+          this.persistSnapshots(items, source).then((r) => {
+            results.snapshots.success = results.snapshots.success && r.success;
+            results.snapshots.count += r.persistedCount;
+          })
+        );
       }
     }
 
@@ -228,6 +257,7 @@ export class PersistenceService {
       raw: results.raw,
       enriched: results.enriched,
       ranked: results.ranked,
+      snapshots: results.snapshots,
       mixed: results.mixed,
     });
 
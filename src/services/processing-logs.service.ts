@@ -1,7 +1,12 @@
 import { inject, singleton } from "tsyringe";
 import { MongoClient, Db, Collection } from "mongodb";
 import { LoggerService } from "./logger.service";
-import type { ProcessingLogEntry, ProcessingStep, Source } from "../types";
+import type {
+  ProcessingLogEntry,
+  ProcessingStep,
+  ProcessingStepStats,
+  Source,
+} from "../types";
 import { getCorrelationId } from "../context/request-context";
 
 interface ProcessingLogDocument extends ProcessingLogEntry {
@@ -173,7 +178,7 @@ export class ProcessingLogsService {
   async getStepStats(
     step: ProcessingStep,
     since: Date
-  ): Promise<{ total: number; successful: number; failed: number; avgDuration: number }> {
+  ): Promise<ProcessingStepStats> {
     if (!this.isConnected || !this.collection) {
       return { total: 0, successful: 0, failed: 0, avgDuration: 0 };
     }
@@ -0,0 +1,191 @@
+import { inject, singleton } from "tsyringe";
+import { readFile, writeFile } from "fs/promises";
+import { LoggerService } from "./logger.service";
+import { DataWarehouseService } from "./data-warehouse.service";
+import {
+  DEFAULT_RANKING_CONFIG,
+  parseRankingConfig,
+  resolveSourceWeights,
+} from "../utils/ranking-config";
+import type {
+  RankingConfig,
+  RankingConfigStorage,
+  RankingWeights,
+  Source,
+} from "../types";
+
+/**
+ * Ranking weights and tech filter thresholds, tunable without a redeploy.
+ * Stored in the warehouse (ranking_config) when it is connected, otherwise in
+ * the JSON file at RANKING_CONFIG_FILE (in memory only when neither is set,
+ * so an update only applies to the instance that received it).
+ * Reloaded periodically, so every instance picks up admin updates.
+ */
+@singleton()
+export class RankingConfigService {
+  private readonly CONFIG_ID = "ranking";
+  private readonly RELOAD_INTERVAL_MS = 60 * 1000;
+  private readonly configFile = process.env.RANKING_CONFIG_FILE;
+  private storage: RankingConfigStorage = "memory";
+  private config: RankingConfig = DEFAULT_RANKING_CONFIG;
+  private listeners: Array<(config: RankingConfig) => void> = [];
+  private reloadTaskId: ReturnType<typeof setInterval> | null = null;
+  private initPromise: Promise<void>;
+
+  constructor(
+    @inject(LoggerService) private logger: LoggerService,
+    @inject(DataWarehouseService) private warehouse: DataWarehouseService
+  ) {
+    this.initPromise = this.initialize();
+  }
+
+  private async initialize() {
+    if (await this.warehouse.isAvailable()) {
+      this.storage = "mongodb";
+    } else if (this.configFile) {
+      this.storage = "file";
+    } else {
+      this.logger.warn(
+        "No ranking config storage, updates only apply to this instance"
+      );
+    }
+
+    await this.reload(false);
+  }
+
+  /**
+   * Resolves once the stored config was loaded (defaults until then)
+   */
+  ready(): Promise<void> {
+    return this.initPromise;
+  }
+
+  get(): RankingConfig {
+    return this.config;
+  }
+
+  forSource(source: Source): RankingWeights {
+    return resolveSourceWeights(this.config, source);
+  }
+
+  /**
+   * Called whenever the config changes (admin update or reload)
+   */
+  onChange(listener: (config: RankingConfig) => void): void {
+    this.listeners.push(listener);
+  }
+
+  /**
+   * Validates, stores and applies a new config (omitted weights use the defaults)
+   * @returns The applied config, or null with the validation errors, and where
+   * it was stored ("memory" = only this instance)
+   */
+  async update(input: unknown): Promise<{
+    config: RankingConfig | null;
+    errors: string[];
+    storage: RankingConfigStorage;
+  }> {
+    await this.initPromise;
+
+    const result = parseRankingConfig(input, new Date().toISOString());
+    if (!result.config) return { ...result, storage: this.storage };
+
+    await this.store(result.config);
+    this.apply(result.config);
+    this.logger.info("Ranking config updated", {
+      weights: result.config.weights,
+      sources: Object.keys(result.config.sources),
+      storage: this.storage,
+    });
+
+    return { ...result, storage: this.storage };
+  }
+
+  /**
+   * Loads the stored config and applies it when it changed
+   */
+  async reload(notify = true): Promise<void> {
+    let stored: unknown;
+    try {
+      stored = await this.load();
+    } catch (error) {
+      this.logger.error("Failed to load ranking config", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return;
+    }
+    if (!stored) return;
+
+    const { updatedAt, ...input } = stored as Partial<RankingConfig>;
+    const { config, errors } = parseRankingConfig(input, updatedAt ?? null);
+    if (!config) {
+      this.logger.error("Invalid stored ranking config, keeping current", {
+        errors,
+      });
+      return;
+    }
+
+    if (JSON.stringify(config) === JSON.stringify(this.config)) return;
+
+    if (notify) {
+      this.apply(config);
+      this.logger.info("Ranking config reloaded", { updatedAt: config.updatedAt });
+    } else {
+      this.config = config;
+    }
+  }
+
+  /**
+   * Reloads the config periodically (in background)
+   */
+  startHotReload(): void {
+    if (this.reloadTaskId) {
+      this.logger.warn("ranking config reload already running");
+      return;
+    }
+
+    this.reloadTaskId = setInterval(() => {
+      this.reload();
+    }, this.RELOAD_INTERVAL_MS);
+  }
+
+  stopHotReload(): void {
+    if (this.reloadTaskId) {
+      clearInterval(this.reloadTaskId);
+      this.reloadTaskId = null;
+    }
+  }
+
+  private apply(config: RankingConfig): void {
+    this.config = config;
+    for (const listener of this.listeners) {
+      listener(config);
+    }
+  }
+
+  private async load(): Promise<unknown> {
+    if (this.storage === "mongodb") {
+      return this.warehouse.getRankingConfig(this.CONFIG_ID);
+    }
+
+    if (this.storage === "file" && this.configFile) {
+      try {
+        return JSON.parse(await readFile(this.configFile, "utf-8"));
+      } catch (error) {
+        // No file yet: defaults until the first update
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+        throw error;
+      }
+    }
+
+    return null;
+  }
+
+  private async store(config: RankingConfig): Promise<void> {
+    if (this.storage === "mongodb") {
+      await this.warehouse.saveRankingConfig(this.CONFIG_ID, config);
+    } else if (this.storage === "file" && this.configFile) {
+      await writeFile(this.configFile, JSON.stringify(config, null, 2));
+    }
+  }
+}
@@ -0,0 +1,89 @@
+import { inject, singleton } from "tsyringe";
+import { RankingService } from "./ranking.service";
+import { VelocityService } from "./velocity.service";
+import type { FeedSort, NewsItem, RankingStrategy } from "../types";
+
+export const FEED_SORTS: FeedSort[] = ["hot", "top", "new", "discussed", "rising"];
+
+export function isFeedSort(value: string): value is FeedSort {
+  return (FEED_SORTS as string[]).includes(value);
+}
+
+// Mix items carry the hot rank in `score`; the other strategies work on the
+// engagement on the source (merged stories count every discussion)
+function withSourceEngagement(item: NewsItem): NewsItem {
+  const score = item.discussions
+    ? item.discussions.reduce((sum, discussion) => sum + discussion.score, 0)
+    : item.originalScore ?? item.score;
+  return { ...item, score };
+}
+
+/**
+ * Orderings available on /api/feed?sort=
+ */
+@singleton()
+export class RankingStrategyService {
+  private readonly TOP_WINDOW_HOURS = 24;
+  private readonly strategies = new Map<FeedSort, RankingStrategy>();
+
+  constructor(
+    @inject(RankingService) private rankingService: RankingService,
+    @inject(VelocityService) private velocityService: VelocityService
+  ) {
+    this.register({
+      id: "hot",
+      description: "Time-decayed engagement with tech relevance boost (default)",
+      interleave: true,
+      prepare: async () => (item) => item.score,
+    });
+    this.register({
+      id: "top",
+      description: `Normalized engagement of the last ${this.TOP_WINDOW_HOURS}h`,
+      interleave: true,
+      filter: (item) =>
+        Date.now() - new Date(item.publishedAt).getTime() <=
+        this.TOP_WINDOW_HOURS * 60 * 60 * 1000,
+      prepare: async () => (item) =>
+        this.rankingService.calculateTopRank(withSourceEngagement(item)),
+    });
+    this.register({
+      id: "new",
+      description: "Newest first, across all sources",
+      interleave: false,
+      prepare: async () => (item) => new Date(item.publishedAt).getTime(),
+    });
+    this.register({
+      id: "discussed",
+      description: "Comment-weighted engagement with time decay",
+      interleave: true,
+      prepare: async () => (item) =>
+        this.rankingService.calculateDiscussedRank(withSourceEngagement(item)),
+    });
+    this.register({
+      id: "rising",
+      description: "Engagement gained per hour between fetches",
+      interleave: true,
+      prepare: async (items) => {
+        const velocities = await this.velocityService.getVelocities(items);
+        return (item) =>
+          velocities.get(`${item.source}:${item.id}`)?.velocity ?? 0;
+      },
+    });
+  }
+
+  register(strategy: RankingStrategy): void {
+    this.strategies.set(strategy.id, strategy);
+  }
+
+  get(id: FeedSort): RankingStrategy {
+    const strategy = this.strategies.get(id);
+    if (!strategy) {
+      throw new Error(`Unknown ranking strategy: ${id}`);
+    }
+    return strategy;
+  }
+
+  getAll(): RankingStrategy[] {
+    return [...this.strategies.values()];
+  }
+}
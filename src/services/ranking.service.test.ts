@@ -2,6 +2,7 @@ import "reflect-metadata";
 import { describe, it, expect } from "vitest";
 import { RankingService } from "./ranking.service";
 import { container } from "tsyringe";
+import { mergeDuplicateStories } from "../utils/dedup";
 
 describe("RankingService", () => {
   const rankingService = container.resolve(RankingService);
@@ -64,4 +65,136 @@ describe("RankingService", () => {
     console.log({ oldScore, newScore });
     expect(oldScore).toBeGreaterThan(newScore);
   });
+
+  it("should explain every factor of the rank", () => {
+    const item = { ...baseItem, score: 120, commentCount: 2, techScore: 80 };
+    const explanation = rankingService.explainRank(item as any);
+
+    expect(explanation.engagement).toBeCloseTo(120 * 1.2 + 2 * 0.8);
+    expect(explanation.techBoost).toBeCloseTo(2.2);
+    expect(explanation.commentPenalty).toBe(0.5);
+    expect(explanation.techScoreOrigin).toBeNull();
+    expect(explanation.final).toBe(rankingService.calculateRank(item as any));
+  });
+
+  it("should explain merged duplicates from the engagement they were ranked with", () => {
+    const hn = { ...baseItem, id: "1", source: "HackerNews", score: 40, commentCount: 30 };
+    const lobsters = { ...baseItem, id: "2", source: "Lobsters", score: 20, commentCount: 10 };
+    const ranked = [hn, lobsters].map((item) => ({
+      ...item,
+      originalScore: item.score,
+      score: rankingService.calculateRank(item as any),
+    }));
+
+    const [merged] = mergeDuplicateStories(ranked as any, (item) =>
+      rankingService.calculateRank(item)
+    );
+
+    // As FeedService explains ranked items
+    const explanation = rankingService.explainRank({
+      ...merged,
+      score: merged.originalScore ?? merged.score,
+      ...merged.rankedFrom,
+    });
+    expect(merged.discussions).toHaveLength(2);
+    expect(explanation.comments).toBe(40);
+    expect(explanation.final).toBe(merged.score);
+  });
+});
+
+describe("RankingService strategies", () => {
+  const rankingService = container.resolve(RankingService);
+  const hoursAgo = (hours: number) =>
+    new Date(Date.now() - hours * 60 * 60 * 1000).toISOString();
+
+  it("should rank top by engagement regardless of age", () => {
+    const fresh = { publishedAt: hoursAgo(1), score: 10, commentCount: 5 };
+    const old = { publishedAt: hoursAgo(20), score: 100, commentCount: 50 };
+
+    expect(rankingService.calculateTopRank(old as any)).toBeGreaterThan(
+      rankingService.calculateTopRank(fresh as any)
+    );
+  });
+
+  it("should rank discussed by comments over points", () => {
+    const upvoted = { publishedAt: hoursAgo(2), score: 300, commentCount: 5 };
+    const discussed = { publishedAt: hoursAgo(2), score: 30, commentCount: 120 };
+
+    expect(rankingService.calculateDiscussedRank(discussed as any)).toBeGreaterThan(
+      rankingService.calculateDiscussedRank(upvoted as any)
+    );
+  });
+});
+
+describe("RankingService.calculateVelocity", () => {
+  const rankingService = container.resolve(RankingService);
+  const now = new Date("2025-01-01T12:00:00.000Z");
+  const hoursAgo = (hours: number) =>
+    new Date(now.getTime() - hours * 60 * 60 * 1000).toISOString();
+
+  const item = {
+    id: "1",
+    title: "Test",
+    source: "HackerNews",
+    publishedAt: hoursAgo(10),
+    score: 500, // calculated rank
+    originalScore: 100,
+    commentCount: 25,
+  };
+
+  const snapshot = (hours: number, score: number, commentCount: number) => ({
+    capturedAt: hoursAgo(hours),
+    score,
+    commentCount,
+    rank: 1,
+    calculatedScore: 0,
+  });
+
+  it("should measure engagement gained per hour between snapshots", () => {
+    const velocity = rankingService.calculateVelocity(
+      item as any,
+      [snapshot(2, 50, 10), snapshot(0, 100, 25)],
+      now
+    );
+
+    // (100*1.2 + 25*0.8) - (50*1.2 + 10*0.8) = 72 over 2 hours
+    expect(velocity.velocity).toBeCloseTo(36);
+    expect(velocity.trend).toBe("rising");
+    expect(velocity.basedOn).toBe("snapshots");
+  });
+
+  it("should flag stalled items as falling", () => {
+    const velocity = rankingService.calculateVelocity(
+      item as any,
+      [snapshot(3, 100, 25), snapshot(0, 100, 26)],
+      now
+    );
+
+    expect(velocity.trend).toBe("falling");
+  });
+
+  it("should ignore snapshots older than the velocity window", () => {
+    const velocity = rankingService.calculateVelocity(
+      item as any,
+      [snapshot(30, 0, 0), snapshot(4, 90, 20), snapshot(0, 100, 25)],
+      now
+    );
+
+    // (140 - 124) / 4 hours
+    expect(velocity.velocity).toBeCloseTo(4);
+    expect(velocity.trend).toBe("steady");
+  });
+
+  it("should fall back to the average since publication for items seen once", () => {
+    const velocity = rankingService.calculateVelocity(
+      item as any,
+      [snapshot(0, 100, 25)],
+      now
+    );
+
+    // (100*1.2 + 25*0.8) / 10 hours
+    expect(velocity.velocity).toBeCloseTo(14);
+    expect(velocity.trend).toBe("steady");
+    expect(velocity.basedOn).toBe("average");
+  });
 });
@@ -1,8 +1,37 @@
-import { singleton } from "tsyringe";
-import type { NewsItem } from "../types";
+import { inject, singleton } from "tsyringe";
+import { RankingConfigService } from "./ranking-config.service";
+import { CalibrationService } from "./calibration.service";
+import { ReputationService } from "./reputation.service";
+import type {
+  ItemSnapshot,
+  ItemVelocity,
+  NewsItem,
+  RankExplanation,
+  RankingWeights,
+} from "../types";
+
+// Velocity ("rising") settings
+export const VELOCITY_WINDOW_HOURS = 6; // Growth is measured over the latest snapshots only
+const MIN_VELOCITY_SPAN_HOURS = 0.25; // Shorter spans are too noisy
+const RISING_GROWTH_RATE = 0.1; // Gaining >= 10% of its engagement per hour
+const FALLING_GROWTH_RATE = 0.01; // Gaining < 1% per hour (stalled)
+
+// Calibrated engagement: the top of a source counts like log10(1000),
+// i.e. a 1000-engagement story on the log scale
+const PERCENTILE_SCALE = 3;
+
+// Final score: multiply by 1000 for human-readable numbers
+// Example: 0.055 → 55, 0.12 → 120
+const SCALE_FACTOR = 1000;
 
 @singleton()
 export class RankingService {
+  constructor(
+    @inject(RankingConfigService) private rankingConfig: RankingConfigService,
+    @inject(CalibrationService) private calibration: CalibrationService,
+    @inject(ReputationService) private reputation: ReputationService
+  ) {}
+
   // Logarithmic Hot Ranking (Reddit-style) with AI tech relevance
   // Formula: [log10(engagement) / (ageHours + 2)^gravity] * techBoost * 1000
   //
@@ -11,56 +40,205 @@ export class RankingService {
   //
   // Engagement = score + (comments * weight)
   // TechScore (0-100) is AI-based tech relevance boost
-  calculateRank(item: NewsItem): number {
+  // Reputation is a bounded boost/penalty from the domain and author history
+  // Weights come from RankingConfigService (with per-source overrides)
+  // Overrides (e.g. an experiment variant) apply over the config weights
+  calculateRank(item: NewsItem, overrides?: Partial<RankingWeights>): number {
+    return this.explainRank(item, overrides).final;
+  }
+
+  // Every factor calculateRank used for the item
+  explainRank(
+    item: NewsItem,
+    overrides?: Partial<RankingWeights>
+  ): RankExplanation {
+    const weights = {
+      ...this.rankingConfig.forSource(item.source),
+      ...overrides,
+    };
     const score = item.score || 0;
     const comments = item.commentCount || 0;
     const techScore = item.techScore || 0;
 
-    // 0.3 means ~3 comments = 1 point in value
-    const COMMENT_WEIGHT = 0.8;
-    const LIKE_WEIGHT = 1.2;
-
     // Calculate total engagement (combines score + comments)
-    const engagement = score * LIKE_WEIGHT + comments * COMMENT_WEIGHT;
+    const engagement = this.engagement(score, comments, weights);
+
+    // Percentile normalization: how the item does among its source's recent
+    // items (see CalibrationService), so HN 600 and TabNews 14 compare by rank
+    const engagementPercentile = this.calibration.engagementPercentile(
+      item.source,
+      score,
+      comments,
+      weights
+    );
 
-    // Logarithmic normalization: compresses large numbers, values small numbers
+    // Logarithmic normalization (without calibration data): compresses large
+    // numbers, values small numbers
     // log10(1) = 0, log10(10) = 1, log10(100) = 2, log10(1000) = 3
-    // This equalizes HN (600 points) with TabNews (14 points)
-    const normalizedScore = Math.log10(Math.max(1, engagement));
+    const normalizedScore =
+      engagementPercentile !== null
+        ? engagementPercentile * PERCENTILE_SCALE
+        : Math.log10(Math.max(1, engagement));
 
     // Time decay: posts get exponentially less relevant as they age
-    const publishedDate = new Date(item.publishedAt);
-    const now = new Date();
-    const ageInHours =
-      (now.getTime() - publishedDate.getTime()) / (1000 * 60 * 60);
-
-    // Gravity controls how fast old posts decay (1.8 is Reddit's standard)
-    // Higher gravity = faster decay
-    const GRAVITY = 1.2;
-    const ageDecay = Math.pow(ageInHours + 6, GRAVITY); // +6 prevents division by zero and expands "fresh" window
+    const ageInHours = this.ageInHours(item.publishedAt);
+    const ageDecay = this.ageDecay(item.publishedAt, weights);
 
     // Tech score boost: multiplier based on AI relevance (0-100)
-    // 100 = 1.5x boost (50% increase)
-    // 80 = 1.4x boost
-    // 61 = 1.305x boost (minimum passing score)
-    // 0 = 1.0x (no boost)
-    const TECH_SCORE_WEIGHT = 0.015; // 0.5% boost per point
-    const techBoost = 1 + techScore * TECH_SCORE_WEIGHT;
+    // With the default weight (0.015 per point):
+    // 100 = 2.5x boost, 61 = 1.915x boost (minimum passing score), 0 = 1.0x
+    const techBoost = 1 + techScore * weights.techScoreWeight;
 
     // Penalty for low comments (dilutes empty posts)
     let commentPenalty = 1.0;
     if (comments === 0) {
-      commentPenalty = 0.2; // 80% penalty for 0 comments
-    } else if (comments < 3) {
-      commentPenalty = 0.5; // 50% penalty for < 3 comments
+      commentPenalty = weights.zeroCommentPenalty; // 0.2 = 80% penalty
+    } else if (comments < weights.fewCommentsThreshold) {
+      commentPenalty = weights.fewCommentsPenalty; // 0.5 = 50% penalty
     }
 
-    // Final score: multiply by 1000 for human-readable numbers
-    // Example: 0.055 → 55, 0.12 → 120
-    const SCALE_FACTOR = 1000;
+    // Domain/author track record: modest, bounded multiplier (see ReputationService)
+    const reputation = this.reputation.boostFor(item);
+
+    const final = Math.round(
+      (normalizedScore / ageDecay) *
+        techBoost *
+        commentPenalty *
+        reputation.multiplier *
+        SCALE_FACTOR
+    );
+
+    return {
+      score,
+      comments,
+      engagement,
+      normalization: engagementPercentile !== null ? "percentile" : "log",
+      engagementPercentile,
+      normalizedScore,
+      ageInHours,
+      ageDecay,
+      techScore,
+      techBoost,
+      commentPenalty,
+      reputation,
+      final,
+      techScoreOrigin: item.techScoreOrigin ?? null,
+    };
+  }
+
+  // "Top" ranking: pure normalized engagement, no age decay or boosts
+  // (callers restrict it to a time window)
+  calculateTopRank(item: NewsItem): number {
+    const engagement = this.engagement(
+      item.score || 0,
+      item.commentCount || 0,
+      this.rankingConfig.forSource(item.source)
+    );
+    return Math.round(Math.log10(Math.max(1, engagement)) * SCALE_FACTOR);
+  }
+
+  // "Discussed" ranking: comments dominate the engagement,
+  // with the same time decay as calculateRank
+  calculateDiscussedRank(item: NewsItem): number {
+    const DISCUSSED_COMMENT_WEIGHT = 3;
+    const DISCUSSED_LIKE_WEIGHT = 0.2;
+
+    const engagement =
+      (item.commentCount || 0) * DISCUSSED_COMMENT_WEIGHT +
+      (item.score || 0) * DISCUSSED_LIKE_WEIGHT;
+    const normalizedScore = Math.log10(Math.max(1, engagement));
 
     return Math.round(
-      (normalizedScore / ageDecay) * techBoost * commentPenalty * SCALE_FACTOR
+      (normalizedScore /
+        this.ageDecay(item.publishedAt, this.rankingConfig.forSource(item.source))) *
+        SCALE_FACTOR
     );
   }
+
+  // Engagement gained per hour between fetches (from stored snapshots)
+  //
+  // Velocity = (engagement now - engagement at window start) / hours
+  // Trend compares the growth with the engagement the item already had:
+  // rising >= 10%/h, falling < 1%/h (stalled), steady in between
+  //
+  // Items seen only once fall back to the average velocity since publication
+  calculateVelocity(
+    item: NewsItem,
+    snapshots: ItemSnapshot[],
+    now: Date = new Date()
+  ): ItemVelocity {
+    const weights = this.rankingConfig.forSource(item.source);
+    const windowStart = now.getTime() - VELOCITY_WINDOW_HOURS * 60 * 60 * 1000;
+    const recent = snapshots
+      .filter((snapshot) => new Date(snapshot.capturedAt).getTime() >= windowStart)
+      .sort(
+        (a, b) =>
+          new Date(a.capturedAt).getTime() - new Date(b.capturedAt).getTime()
+      );
+
+    const first = recent[0];
+    const last = recent[recent.length - 1];
+    const spanHours =
+      recent.length >= 2
+        ? (new Date(last.capturedAt).getTime() -
+            new Date(first.capturedAt).getTime()) /
+          (1000 * 60 * 60)
+        : 0;
+
+    if (spanHours < MIN_VELOCITY_SPAN_HOURS) {
+      const ageInHours =
+        (now.getTime() - new Date(item.publishedAt).getTime()) / (1000 * 60 * 60);
+      const engagement = this.engagement(
+        item.originalScore ?? item.score ?? 0,
+        item.commentCount || 0,
+        weights
+      );
+
+      return {
+        velocity: engagement / Math.max(1, ageInHours),
+        trend: "steady",
+        basedOn: "average",
+      };
+    }
+
+    const startEngagement = this.engagement(
+      first.score,
+      first.commentCount,
+      weights
+    );
+    const velocity =
+      (this.engagement(last.score, last.commentCount, weights) -
+        startEngagement) /
+      spanHours;
+    const growthRate = velocity / Math.max(1, startEngagement);
+
+    let trend: ItemVelocity["trend"] = "steady";
+    if (growthRate >= RISING_GROWTH_RATE) {
+      trend = "rising";
+    } else if (growthRate < FALLING_GROWTH_RATE) {
+      trend = "falling";
+    }
+
+    return { velocity, trend, basedOn: "snapshots" };
+  }
+
+  private ageInHours(publishedAt: string): number {
+    return (Date.now() - new Date(publishedAt).getTime()) / (1000 * 60 * 60);
+  }
+
+  private ageDecay(publishedAt: string, weights: RankingWeights): number {
+    const ageInHours = this.ageInHours(publishedAt);
+
+    // Gravity controls how fast old posts decay (1.8 is Reddit's standard)
+    // Higher gravity = faster decay
+    return Math.pow(ageInHours + 6, weights.gravity); // +6 prevents division by zero and expands "fresh" window
+  }
+
+  private engagement(
+    score: number,
+    comments: number,
+    weights: RankingWeights
+  ): number {
+    return score * weights.likeWeight + comments * weights.commentWeight;
+  }
 }
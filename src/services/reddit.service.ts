@@ -1,24 +1,62 @@
 import { inject, singleton } from "tsyringe";
-import type { RedditPost, RedditResponse } from "../types";
+import type {
+  DiscussionComment,
+  NewsItem,
+  RedditComment,
+  RedditCommentListing,
+  RedditPost,
+  RedditResponse,
+} from "../types";
+import { CacheKey, Source } from "../types";
 import { LoggerService } from "./logger.service";
+import { RankingConfigService } from "./ranking-config.service";
+import { GeminiService } from "./gemini.service";
+import { CacheService } from "./cache.service";
+import {
+  capTechScore,
+  readCachedTechScore,
+  type SourceTechScore,
+} from "../utils/scoring";
 
 @singleton()
 export class RedditService {
   private readonly USER_AGENT = "TechNewsAPI/1.0";
-  private readonly SUBREDDITS = [
+  private readonly REDDIT_URL = "https://www.reddit.com";
+  private readonly DEFAULT_SUBREDDITS = [
     "programming",
     "webdev",
     "javascript",
     "reactjs",
     "typescript",
   ];
+  private readonly subreddits: string[];
+  private readonly minScore: number;
+  private readonly minComments: number;
+  private readonly maxAgeHours: number;
 
-  constructor(@inject(LoggerService) private logger: LoggerService) {}
+  constructor(
+    @inject(LoggerService) private logger: LoggerService,
+    @inject(GeminiService) private geminiService: GeminiService,
+    @inject(CacheService) private cacheService: CacheService,
+    @inject(RankingConfigService)
+    private rankingConfig: RankingConfigService,
+  ) {
+    this.subreddits = process.env.REDDIT_SUBREDDITS
+      ? process.env.REDDIT_SUBREDDITS.split(",")
+          .map((s) => s.trim())
+          .filter(Boolean)
+      : this.DEFAULT_SUBREDDITS;
+
+    // Thresholds can be overridden via env vars
+    this.minScore = this.readNumberEnv("REDDIT_MIN_SCORE", 100);
+    this.minComments = this.readNumberEnv("REDDIT_MIN_COMMENTS", 10);
+    this.maxAgeHours = this.readNumberEnv("REDDIT_MAX_AGE_HOURS", 48);
+  }
 
   async fetchHotPosts(limit = 50): Promise<RedditPost[]> {
     const allPosts: RedditPost[] = [];
 
-    for (const subreddit of this.SUBREDDITS) {
+    for (const subreddit of this.subreddits) {
       try {
         const posts = await this.fetchSubreddit(subreddit, limit);
         this.logger.info(`fetched ${posts.length} posts from r/${subreddit}`, {
@@ -38,7 +76,7 @@ export class RedditService {
 
     this.logger.info("completed fetching subreddits", {
       totalFetched: allPosts.length,
-      subredditsQueried: this.SUBREDDITS.length,
+      subredditsQueried: this.subreddits.length,
     });
     return allPosts;
   }
@@ -47,7 +85,7 @@ export class RedditService {
     subreddit: string,
     limit: number,
   ): Promise<RedditPost[]> {
-    const url = `https://www.reddit.com/r/${subreddit}/hot.json?limit=${limit}`;
+    const url = `${this.REDDIT_URL}/r/${subreddit}/hot.json?limit=${limit}`;
 
     const response = await fetch(url, {
       headers: {
@@ -71,23 +109,19 @@ export class RedditService {
 
   // Filter posts by engagement thresholds
   filterByEngagement(posts: RedditPost[]): RedditPost[] {
-    // Lower defaults for easier testing; can be overridden via env vars
-    const MIN_SCORE = Number(process.env.REDDIT_MIN_SCORE) || 100;
-    const MIN_COMMENTS = Number(process.env.REDDIT_MIN_COMMENTS) || 10;
-
     const filtered = posts.filter((post) => {
       const score = post.data.score;
       const comments = post.data.num_comments;
       const isNSFW = post.data.over_18;
 
-      return score >= MIN_SCORE && comments >= MIN_COMMENTS && !isNSFW;
+      return score >= this.minScore && comments >= this.minComments && !isNSFW;
     });
 
     this.logger.info("filterByEngagement result", {
       before: posts.length,
       after: filtered.length,
-      minScore: MIN_SCORE,
-      minComments: MIN_COMMENTS,
+      minScore: this.minScore,
+      minComments: this.minComments,
     });
 
     return filtered;
@@ -120,15 +154,191 @@ export class RedditService {
     });
   }
 
-  // Filter posts from last 48 hours
+  // Filter posts newer than the configured max age (48 hours by default)
   filterRecent(posts: RedditPost[]): RedditPost[] {
-    const HOURS_48 = 48 * 60 * 60 * 1000;
+    const maxAgeMs = this.maxAgeHours * 60 * 60 * 1000;
     const now = Date.now();
 
     return posts.filter((post) => {
       const postTime = post.data.created_utc * 1000; // Convert to milliseconds
       const age = now - postTime;
-      return age <= HOURS_48;
+      return age <= maxAgeMs;
+    });
+  }
+
+  /**
+   * Fetch Reddit hot posts as NewsItem[] to integrate with the news feed
+   */
+  async fetchNews(): Promise<NewsItem[]> {
+    // check cache first
+    const cached = await this.cacheService.get<NewsItem[]>(CacheKey.Reddit);
+    if (cached) {
+      this.logger.info("returning cached Reddit posts", {
+        count: cached.length,
+      });
+      return cached;
+    }
+
+    const posts = await this.fetchHotPosts();
+
+    // The same post can be crossposted to more than one subreddit listing
+    const unique = Array.from(
+      new Map(posts.map((post) => [post.data.id, post])).values(),
+    );
+
+    const filtered = this.filterRecent(
+      this.filterSpam(this.filterByEngagement(unique)),
+    );
+
+    this.logger.info("fetched and filtered Reddit posts for news", {
+      totalFetched: posts.length,
+      afterFilter: filtered.length,
+    });
+
+    const newsItems: NewsItem[] = filtered.map((post) => {
+      const permalink = `${this.REDDIT_URL}${post.data.permalink}`;
+
+      return {
+        id: `reddit-${post.data.id}`,
+        title: post.data.title,
+        author: post.data.author,
+        score: post.data.score,
+        publishedAt: new Date(post.data.created_utc * 1000).toISOString(),
+        source: Source.Reddit,
+        url: post.data.is_self ? permalink : post.data.url, // Use permalink for text posts
+        sourceUrl: permalink,
+        body: post.data.selftext || undefined,
+        commentCount: post.data.num_comments,
+      };
+    });
+
+    // Filter by tech relevance using AI
+    const techFiltered = await this.filterByTechRelevance(newsItems);
+
+    this.logger.info(
+      `Reddit: ${techFiltered.length}/${newsItems.length} posts are tech-related`,
+    );
+
+    // cache results
+    await this.cacheService.set(CacheKey.Reddit, techFiltered);
+
+    return techFiltered;
+  }
+
+  /**
+   * Fetches the comment tree of a post (bodies are already Markdown).
+   * "Load more" stubs are dropped.
+   * @param postId - Reddit post id, without the "t3_" prefix
+   * @returns Comments, or null when the post does not exist
+   */
+  async fetchDiscussion(postId: string): Promise<DiscussionComment[] | null> {
+    const response = await fetch(
+      `${this.REDDIT_URL}/comments/${encodeURIComponent(postId)}.json?raw_json=1&limit=200&depth=5`,
+      { headers: { "User-Agent": this.USER_AGENT } },
+    );
+
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new Error(
+        `Reddit API error for post ${postId}: ${response.status} ${response.statusText}`,
+      );
+    }
+
+    // [post listing, comment listing]
+    const [, listing] = (await response.json()) as [
+      RedditResponse,
+      RedditCommentListing,
+    ];
+
+    const toDiscussion = (
+      comments: RedditComment[],
+      depth: number,
+    ): DiscussionComment[] =>
+      comments
+        .filter((comment) => comment.kind === "t1")
+        .map(({ data }) => ({
+          id: data.id,
+          source: Source.Reddit,
+          parentId: data.parent_id.startsWith("t1_")
+            ? data.parent_id.slice(3)
+            : null,
+          depth,
+          author: data.author,
+          body: data.body,
+          score: data.score,
+          createdAt: new Date(data.created_utc * 1000).toISOString(),
+          permalink: `${this.REDDIT_URL}${data.permalink}`,
+          children: data.replies
+            ? toDiscussion(data.replies.data.children, depth + 1)
+            : [],
+        }));
+
+    return toDiscussion(listing?.data.children ?? [], 0);
+  }
+
+  /**
+   * Filters news items by tech relevance using AI analysis
+   * Uses cached scores when available to reduce API calls
+   */
+  private async filterByTechRelevance(items: NewsItem[]): Promise<NewsItem[]> {
+    const analysisPromises = items.map(async (item) => {
+      // Check if we have cached score for this post
+      const cacheKey = `tech-score:reddit:${item.id}`;
+      const cachedScore = await this.cacheService.get<number | SourceTechScore>(
+        cacheKey,
+      );
+
+      let score: SourceTechScore;
+      if (cachedScore !== null) {
+        score = readCachedTechScore(cachedScore);
+      } else {
+        // Analyze with AI (title + body if available)
+        const tempScore = await this.geminiService.analyzeTechRelevance(
+          item.title,
+          item.body || "",
+        );
+
+        // Cap score for code hosting sites
+        score = capTechScore(tempScore, item.url);
+
+        // Cache score for 24 hours (86400 seconds)
+        await this.cacheService.set(cacheKey, score, 86400);
+      }
+
+      return { item, score };
     });
+
+    // Wait for all analyses to complete
+    const results = await Promise.all(analysisPromises);
+
+    // Filter items with score >= minTechScore and attach techScore to each item
+    const { minTechScore } = this.rankingConfig.forSource(Source.Reddit);
+    const filtered = results
+      .filter(({ score }) => score.score >= minTechScore)
+      .map(({ item, score }) => ({
+        ...item,
+        techScore: score.score, // Add AI score to NewsItem for ranking
+        techScoreCapped: score.codeHostingCapped,
+      }));
+
+    return filtered;
+  }
+
+  private readNumberEnv(name: string, fallback: number): number {
+    const raw = process.env[name];
+    if (raw === undefined || raw.trim() === "") {
+      return fallback;
+    }
+
+    const value = Number(raw);
+    if (Number.isNaN(value) || value < 0) {
+      this.logger.warn(`Invalid ${name} value, using default`, {
+        value: raw,
+        fallback,
+      });
+      return fallback;
+    }
+
+    return value;
   }
 }
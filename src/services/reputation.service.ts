@@ -0,0 +1,153 @@
+import { inject, singleton } from "tsyringe";
+import { DataWarehouseService } from "./data-warehouse.service";
+import { RankingConfigService } from "./ranking-config.service";
+import { LoggerService } from "./logger.service";
+import { ScheduledRecompute } from "./scheduled-recompute";
+import {
+  buildReputation,
+  reputationKeys,
+  reputationMultiplier,
+} from "../utils/reputation";
+import type {
+  NewsItem,
+  ReputationBoost,
+  ReputationEntry,
+  ReputationKind,
+  ReputationLeaderboard,
+} from "../types";
+
+const NEUTRAL_BOOST: ReputationBoost = {
+  domain: null,
+  author: null,
+  multiplier: 1,
+};
+
+function byKey(entries: ReputationEntry[]): Map<string, ReputationEntry> {
+  return new Map(entries.map((entry) => [`${entry.kind}:${entry.key}`, entry]));
+}
+
+/**
+ * Domain and author reputation, built from the techScore and engagement of
+ * their recently enriched posts (enriched_news, so posts the tech filter kept
+ * out of the feed count too). Gives the rank a modest boost
+ * (or penalty) bounded by reputation.maxAdjustment. Recomputed periodically
+ * and stored in the reputation collection, so a restart starts with the last one.
+ */
+@singleton()
+export class ReputationService {
+  private entries: ScheduledRecompute<Map<string, ReputationEntry>>; // kind:key
+
+  constructor(
+    @inject(DataWarehouseService) private warehouse: DataWarehouseService,
+    @inject(RankingConfigService) private rankingConfig: RankingConfigService,
+    @inject(LoggerService) private logger: LoggerService
+  ) {
+    this.entries = new ScheduledRecompute({
+      name: "reputation",
+      windowDays: () => this.rankingConfig.get().reputation.windowDays,
+      compute: (since) => this.buildEntries(since),
+      loadStored: async () => {
+        const stored = await this.warehouse.getReputation();
+        return stored.length > 0 ? byKey(stored) : null;
+      },
+      logger,
+    });
+  }
+
+  /**
+   * Rank multiplier of an item's domain and author
+   * (neutral when reputation is off, unknown or has too few posts)
+   */
+  boostFor(item: NewsItem): ReputationBoost {
+    const { enabled, maxAdjustment } = this.rankingConfig.get().reputation;
+    if (!enabled || !this.entries.get()) return NEUTRAL_BOOST;
+
+    const { domain, author } = reputationKeys(item);
+    const domainMultiplier = this.multiplierOf("domain", domain);
+    const authorMultiplier = this.multiplierOf("author", author);
+
+    // Both together stay within the same bounds as each one
+    const multiplier = Math.min(
+      1 + maxAdjustment,
+      Math.max(
+        1 - maxAdjustment,
+        (domainMultiplier ?? 1) * (authorMultiplier ?? 1)
+      )
+    );
+
+    return { domain: domainMultiplier, author: authorMultiplier, multiplier };
+  }
+
+  /**
+   * Domains/authors with at least minPosts posts, best (top) or worst (bottom) first
+   */
+  getLeaderboard(
+    kind: ReputationKind,
+    order: "top" | "bottom",
+    limit: number
+  ): ReputationLeaderboard {
+    const { enabled, maxAdjustment, minPosts } =
+      this.rankingConfig.get().reputation;
+    const direction = order === "top" ? -1 : 1;
+
+    const entries = [...(this.entries.get()?.values() ?? [])]
+      .filter((entry) => entry.kind === kind && entry.posts >= minPosts)
+      .sort(
+        (a, b) =>
+          (a.reputation - b.reputation) * direction || b.posts - a.posts
+      )
+      .slice(0, limit)
+      .map((entry) => ({
+        ...entry,
+        multiplier: reputationMultiplier(entry.reputation, maxAdjustment),
+      }));
+
+    return { kind, order, enabled, minPosts, entries };
+  }
+
+  /**
+   * Rebuilds the reputation from the items enriched within the configured window
+   */
+  recompute(): Promise<void> {
+    return this.entries.recompute();
+  }
+
+  /**
+   * Recomputes the reputation now and periodically (in background)
+   */
+  startSchedule(): void {
+    this.entries.start();
+  }
+
+  stopSchedule(): void {
+    this.entries.stop();
+  }
+
+  private multiplierOf(kind: ReputationKind, key: string | null): number | null {
+    if (!key) return null;
+
+    const entry = this.entries.get()?.get(`${kind}:${key}`);
+    const { maxAdjustment, minPosts } = this.rankingConfig.get().reputation;
+    if (!entry || entry.posts < minPosts) return null;
+
+    return reputationMultiplier(entry.reputation, maxAdjustment);
+  }
+
+  private async buildEntries(
+    since: Date
+  ): Promise<Map<string, ReputationEntry> | null> {
+    const items = await this.warehouse.getReputationSamples(since);
+    if (items.length === 0) return null;
+
+    const entries = buildReputation(items, new Date().toISOString());
+    await this.warehouse.saveReputation(entries);
+
+    this.logger.info("Reputation recomputed", {
+      items: items.length,
+      domains: entries.filter((entry) => entry.kind === "domain").length,
+      authors: entries.filter((entry) => entry.kind === "author").length,
+    });
+
+    return byKey(entries);
+  }
+}
@@ -0,0 +1,139 @@
+import { inject, singleton } from "tsyringe";
+import { createHash } from "crypto";
+import { CacheKey, Source, type NewsItem } from "../types";
+import { CacheService } from "./cache.service";
+import { LoggerService } from "./logger.service";
+import { LinkScraperService } from "./link-scraper.service";
+import { parseFeed, type ParsedFeedEntry } from "../utils/feed-parser";
+
+/**
+ * Generic feed reader for blogs that only publish RSS 2.0, Atom or JSON Feed.
+ * Feed URLs are configured via RSS_FEEDS (comma-separated).
+ */
+@singleton()
+export class RssService {
+  private readonly USER_AGENT = "TechNewsAPI/1.0";
+  private readonly MAX_ENTRIES_PER_FEED = 20;
+  private readonly MAX_BODY_LENGTH = 1000;
+  private readonly DEFAULT_FEEDS = [
+    "https://blog.cloudflare.com/rss/",
+    "https://github.blog/feed/",
+    "https://martinfowler.com/feed.atom",
+    "https://jvns.ca/atom.xml",
+    "https://simonwillison.net/atom/everything/",
+  ];
+  private readonly feeds: string[];
+
+  constructor(
+    @inject(CacheService) private cacheService: CacheService,
+    @inject(LoggerService) private logger: LoggerService,
+    @inject(LinkScraperService) private linkScraperService: LinkScraperService,
+  ) {
+    this.feeds = process.env.RSS_FEEDS
+      ? process.env.RSS_FEEDS.split(",")
+          .map((url) => url.trim())
+          .filter(Boolean)
+      : this.DEFAULT_FEEDS;
+  }
+
+  /**
+   * Fetches every configured feed and returns the entries newest first.
+   * A failing feed is logged and skipped; throws only if all of them fail.
+   */
+  async fetchNews(): Promise<NewsItem[]> {
+    const results = await Promise.allSettled(
+      this.feeds.map((feedUrl) => this.fetchFeed(feedUrl)),
+    );
+
+    const items: NewsItem[] = [];
+    results.forEach((result, index) => {
+      if (result.status === "fulfilled") {
+        items.push(...result.value);
+      } else {
+        this.logger.error(`error fetching feed ${this.feeds[index]}`, {
+          feedUrl: this.feeds[index],
+          error:
+            result.reason instanceof Error
+              ? result.reason.message
+              : String(result.reason),
+        });
+      }
+    });
+
+    if (this.feeds.length > 0 && results.every((r) => r.status === "rejected")) {
+      throw new Error("Não foi possível carregar nenhum feed RSS");
+    }
+
+    items.sort(
+      (a, b) =>
+        new Date(b.publishedAt).getTime() - new Date(a.publishedAt).getTime(),
+    );
+
+    this.logger.info("fetched RSS/Atom/JSON feeds", {
+      feeds: this.feeds.length,
+      failed: results.filter((r) => r.status === "rejected").length,
+      count: items.length,
+    });
+
+    return items;
+  }
+
+  /**
+   * Fetches a single feed (cached per feed URL)
+   */
+  async fetchFeed(feedUrl: string): Promise<NewsItem[]> {
+    const cacheKey = `${CacheKey.Rss}:${feedUrl}`;
+    const cached = await this.cacheService.get<NewsItem[]>(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const response = await fetch(feedUrl, {
+      headers: {
+        "User-Agent": this.USER_AGENT,
+        Accept:
+          "application/rss+xml, application/atom+xml, application/feed+json, application/xml;q=0.9, */*;q=0.8",
+      },
+      redirect: "follow",
+    });
+
+    if (!response.ok) {
+      throw new Error(`Feed error for ${feedUrl}: ${response.status}`);
+    }
+
+    const feed = parseFeed(await response.text());
+    const feedTitle = feed.title || new URL(feedUrl).hostname;
+
+    const items = feed.entries
+      .slice(0, this.MAX_ENTRIES_PER_FEED)
+      .map((entry) => this.toNewsItem(entry, feedUrl, feedTitle));
+
+    await this.cacheService.set(cacheKey, items);
+    return items;
+  }
+
+  private toNewsItem(
+    entry: ParsedFeedEntry,
+    feedUrl: string,
+    feedTitle: string,
+  ): NewsItem {
+    const body = entry.summary
+      ? this.linkScraperService
+          .extractTextFromHTML(entry.summary)
+          .slice(0, this.MAX_BODY_LENGTH)
+      : undefined;
+
+    return {
+      // Entry ids are often full URLs, hash them into something route-friendly
+      id: `rss-${createHash("sha1").update(`${feedUrl}|${entry.id}`).digest("hex").slice(0, 16)}`,
+      title: entry.title,
+      author: entry.author || feedTitle,
+      score: 0, // Feeds carry no engagement data
+      publishedAt: entry.publishedAt || new Date().toISOString(),
+      source: Source.Rss,
+      url: entry.link,
+      body: body || undefined,
+      commentCount: 0,
+    };
+  }
+}
@@ -0,0 +1,52 @@
+import { describe, it, expect, vi } from "vitest";
+import { ScheduledRecompute } from "./scheduled-recompute";
+
+describe("ScheduledRecompute", () => {
+  const mockLogger = { info: vi.fn(), error: vi.fn(), warn: vi.fn() };
+
+  const create = (options: {
+    compute: (since: Date) => Promise<string | null>;
+    loadStored: () => Promise<string | null>;
+  }) =>
+    new ScheduledRecompute({
+      name: "test",
+      windowDays: () => 2,
+      logger: mockLogger as any,
+      ...options,
+    });
+
+  it("should start with the stored value", async () => {
+    const recompute = create({
+      compute: async () => "fresh",
+      loadStored: async () => "stored",
+    });
+
+    await vi.waitFor(() => expect(recompute.get()).toBe("stored"));
+  });
+
+  it("should not let a late stored value replace a recompute", async () => {
+    let resolveStored!: (value: string) => void;
+    const recompute = create({
+      compute: async () => "fresh",
+      loadStored: () => new Promise((resolve) => (resolveStored = resolve)),
+    });
+
+    await recompute.recompute();
+    resolveStored("stored");
+    await Promise.resolve();
+
+    expect(recompute.get()).toBe("fresh");
+  });
+
+  it("should read the configured window and keep the value when compute has nothing", async () => {
+    const compute = vi.fn(async (_since: Date) => null);
+    const recompute = create({ compute, loadStored: async () => "stored" });
+    await vi.waitFor(() => expect(recompute.get()).toBe("stored"));
+
+    await recompute.recompute();
+
+    const since = compute.mock.calls[0][0];
+    expect(Date.now() - since.getTime()).toBeCloseTo(2 * 24 * 60 * 60 * 1000, -3);
+    expect(recompute.get()).toBe("stored");
+  });
+});
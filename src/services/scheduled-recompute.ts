@@ -0,0 +1,73 @@
+import type { LoggerService } from "./logger.service";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+interface ScheduledRecomputeOptions<T> {
+  name: string; // For logs, e.g. "score calibration"
+  windowDays: () => number; // Days of warehouse data compute reads
+  compute: (since: Date) => Promise<T | null>; // null keeps the current value
+  loadStored: () => Promise<T | null>;
+  logger: LoggerService;
+}
+
+/**
+ * A value rebuilt from the recent warehouse data every 6 hours (in background).
+ * Starts with the last stored value, so a restart does not wait for a recompute.
+ */
+export class ScheduledRecompute<T> {
+  private readonly RECOMPUTE_INTERVAL_MS = 6 * HOUR_MS;
+  private value: T | null = null;
+  private recomputeTaskId: ReturnType<typeof setInterval> | null = null;
+
+  constructor(private options: ScheduledRecomputeOptions<T>) {
+    this.loadStored();
+  }
+
+  get(): T | null {
+    return this.value;
+  }
+
+  async recompute(): Promise<void> {
+    const since = new Date(
+      Date.now() - this.options.windowDays() * 24 * HOUR_MS
+    );
+    const value = await this.options.compute(since);
+    if (value !== null) this.value = value;
+  }
+
+  /**
+   * Recomputes now and periodically (in background)
+   */
+  start(): void {
+    const { name, logger } = this.options;
+    if (this.recomputeTaskId) {
+      logger.warn(`${name} already scheduled`);
+      return;
+    }
+
+    const run = () =>
+      this.recompute().catch((error) =>
+        logger.error(`${name} recompute failed`, {
+          error: error instanceof Error ? error.message : String(error),
+        })
+      );
+
+    run();
+    this.recomputeTaskId = setInterval(run, this.RECOMPUTE_INTERVAL_MS);
+  }
+
+  stop(): void {
+    if (this.recomputeTaskId) {
+      clearInterval(this.recomputeTaskId);
+      this.recomputeTaskId = null;
+    }
+  }
+
+  private async loadStored(): Promise<void> {
+    const stored = await this.options.loadStored();
+    // A recompute may have finished first
+    if (stored === null || this.value !== null) return;
+
+    this.value = stored;
+  }
+}
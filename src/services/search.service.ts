@@ -0,0 +1,146 @@
+import { inject, singleton } from "tsyringe";
+import { createHash } from "crypto";
+import { DataWarehouseService } from "./data-warehouse.service";
+import { LoggerService } from "./logger.service";
+import { decodeCursor, encodeCursor } from "../utils/cursor";
+import { feedFiltersKey, matchesFeedFilters } from "../utils/feed-filters";
+import {
+  highlightItem,
+  rankSearchHits,
+  termWeights,
+  tokenize,
+} from "../utils/search";
+import { InvalidCursorError } from "../errors";
+import type {
+  EnrichedNewsItem,
+  NewsItem,
+  SearchParams,
+  SearchResponse,
+} from "../types";
+
+interface IndexedItem {
+  item: NewsItem;
+  terms: Map<string, number>;
+}
+
+// Cursors only apply to the search they were issued for
+function searchKey(params: SearchParams): string {
+  return createHash("sha1")
+    .update(`${params.q.toLowerCase()}\n${feedFiltersKey(params.filters)}`)
+    .digest("base64url")
+    .slice(0, 16);
+}
+
+/**
+ * Full-text search over the enriched news: the warehouse text index, or an
+ * in-memory index of the items enriched by this instance when MONGODB_URI
+ * is not set. Results are ordered by text relevance and recency.
+ */
+@singleton()
+export class SearchService {
+  private readonly CANDIDATE_LIMIT = 500;
+  private readonly MAX_INDEXED_ITEMS = 5000;
+  private memoryIndex = new Map<string, IndexedItem>(); // source:id
+
+  constructor(
+    @inject(DataWarehouseService) private warehouse: DataWarehouseService,
+    @inject(LoggerService) private logger: LoggerService
+  ) {}
+
+  /**
+   * A page of results. The cursor is an offset in the results of the same search,
+   * so items indexed in between may shift pages slightly.
+   * @throws InvalidCursorError when the cursor is malformed or was issued for another search
+   */
+  async search(
+    params: SearchParams,
+    limit: number,
+    after?: string
+  ): Promise<SearchResponse> {
+    const key = searchKey(params);
+    let offset = 0;
+    if (after) {
+      const cursor = decodeCursor(after);
+      if (!cursor) throw new InvalidCursorError();
+      if (cursor.s !== key) {
+        throw new InvalidCursorError("Cursor emitido para outra busca");
+      }
+      offset = cursor.o;
+    }
+
+    const useWarehouse = await this.warehouse.isAvailable();
+    const candidates = useWarehouse
+      ? await this.warehouse.searchEnrichedNews(params, this.CANDIDATE_LIMIT)
+      : this.searchMemory(params);
+
+    const ranked = rankSearchHits(candidates);
+    const page = ranked.slice(offset, offset + limit);
+    const nextOffset = offset + page.length;
+
+    this.logger.info("search", {
+      q: params.q,
+      backend: useWarehouse ? "warehouse" : "memory",
+      total: ranked.length,
+      offset,
+    });
+
+    return {
+      query: params.q,
+      items: page.map(({ item, relevance }) => ({
+        ...item,
+        relevance,
+        highlight: highlightItem(item, params.q),
+      })),
+      nextCursor:
+        page.length === limit && nextOffset < ranked.length
+          ? encodeCursor({ s: key, o: nextOffset })
+          : null,
+      backend: useWarehouse ? "warehouse" : "memory",
+    };
+  }
+
+  /**
+   * Adds enriched items to the in-memory index (only used without the warehouse)
+   */
+  async index(items: EnrichedNewsItem[]): Promise<void> {
+    if (items.length === 0 || (await this.warehouse.isAvailable())) return;
+
+    for (const enriched of items) {
+      const item: NewsItem = {
+        ...enriched.rawData,
+        techScore: enriched.techScore,
+        techScoreOrigin: enriched.techScoreOrigin,
+        keywords: enriched.keywords,
+      };
+      const key = `${item.source}:${item.id}`;
+
+      // Re-inserting keeps the map ordered by last update
+      this.memoryIndex.delete(key);
+      this.memoryIndex.set(key, { item, terms: termWeights(item) });
+    }
+
+    while (this.memoryIndex.size > this.MAX_INDEXED_ITEMS) {
+      const oldest = this.memoryIndex.keys().next().value as string;
+      this.memoryIndex.delete(oldest);
+    }
+  }
+
+  private searchMemory(
+    params: SearchParams
+  ): Array<{ item: NewsItem; textScore: number }> {
+    const terms = [...new Set(tokenize(params.q))];
+    const candidates: Array<{ item: NewsItem; textScore: number }> = [];
+
+    for (const { item, terms: weights } of this.memoryIndex.values()) {
+      const textScore = terms.reduce(
+        (sum, term) => sum + (weights.get(term) ?? 0),
+        0
+      );
+      if (textScore > 0 && matchesFeedFilters(item, params.filters)) {
+        candidates.push({ item, textScore });
+      }
+    }
+
+    return candidates;
+  }
+}
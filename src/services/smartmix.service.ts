@@ -1,31 +1,134 @@
 import { singleton, inject } from "tsyringe";
-import type { NewsItem, RankedNewsItem, EnrichedNewsItem, Source } from "../types";
-import { TabNewsService } from "./tabnews.service";
-import { HackerNewsService } from "./hackernews.service";
-import { TwitterService } from "./twitter.service";
+import type {
+  NewsItem,
+  RankedNewsItem,
+  EnrichedNewsItem,
+  ExperimentAssignment,
+  FeedFilters,
+  FeedSnapshot,
+  FeedSort,
+  RankingWeights,
+  NewsSource,
+  Source,
+  SourceStatus,
+} from "../types";
 import { RankingService } from "./ranking.service";
 import { CacheService } from "./cache.service";
 import { PersistenceService } from "./persistence.service";
 import { EnrichmentService } from "./enrichment.service";
-import { CacheKey, Source as SourceEnum } from "../types";
+import { SourceRegistryService } from "./source-registry.service";
+import { CacheKey } from "../types";
 import { LoggerService } from "./logger.service";
+import { RankingConfigService } from "./ranking-config.service";
+import { FeedSnapshotService } from "./feed-snapshot.service";
+import {
+  FEED_SORTS,
+  RankingStrategyService,
+} from "./ranking-strategy.service";
+import {
+  clusterStories,
+  collapseStoryClusters,
+} from "../utils/clustering";
+import { mergeDuplicateStories } from "../utils/dedup";
+import { diversify } from "../utils/diversity";
+import { interleaveByShare, resolveShares } from "../utils/interleave";
+import { decodeCursor, encodeCursor } from "../utils/cursor";
+import { feedFiltersKey, matchesFeedFilters } from "../utils/feed-filters";
+import { InvalidCursorError, SnapshotExpiredError } from "../errors";
+
+interface SourceBatch {
+  source: NewsSource;
+  raw: NewsItem[];
+  enriched: EnrichedNewsItem[];
+  ranked: RankedNewsItem[];
+}
 
 @singleton()
 export class SmartMixService {
   private fetchLock: Promise<NewsItem[]> | null = null;
+  private orderLocks = new Map<string, Promise<NewsItem[]>>();
+  private orderCacheKeys = new Set<string>(); // Variant orderings issued
+  private sourceStatuses: SourceStatus[] | null = null;
+  private mixListeners: Array<() => void> = [];
 
   constructor(
-    @inject(TabNewsService) private tabNewsService: TabNewsService,
-    @inject(HackerNewsService) private hackerNewsService: HackerNewsService,
-    @inject(TwitterService) private twitterService: TwitterService,
+    @inject(SourceRegistryService) private sourceRegistry: SourceRegistryService,
     @inject(RankingService) private rankingService: RankingService,
     @inject(CacheService) private cacheService: CacheService,
     @inject(PersistenceService) private persistenceService: PersistenceService,
     @inject(EnrichmentService) private enrichmentService: EnrichmentService,
+    @inject(RankingStrategyService)
+    private strategyService: RankingStrategyService,
+    @inject(RankingConfigService)
+    private rankingConfig: RankingConfigService,
+    @inject(FeedSnapshotService)
+    private snapshotService: FeedSnapshotService,
     @inject(LoggerService) private logger: LoggerService
-  ) {}
+  ) {
+    // New weights only apply to a freshly ranked mix
+    this.rankingConfig.onChange(() => {
+      this.invalidate().catch((error) =>
+        this.logger.error("failed to invalidate mix", {
+          error: error instanceof Error ? error.message : String(error),
+        })
+      );
+    });
+  }
+
+  /**
+   * The feed in the order of a ranking strategy
+   * (duplicates merged, story clusters collapsed), cached per strategy.
+   * Clients in an experiment get the mix re-ranked with their variant weights.
+   * Filters keep the matching items of that ordering, on every request
+   * (only unfiltered orderings are cached).
+   */
+  async fetchMix(
+    sort: FeedSort = "hot",
+    assignment?: ExperimentAssignment,
+    filters: FeedFilters = {}
+  ): Promise<NewsItem[]> {
+    const ordered = await this.fetchOrdering(sort, assignment);
+    return feedFiltersKey(filters)
+      ? ordered.filter((item) => matchesFeedFilters(item, filters))
+      : ordered;
+  }
+
+  private async fetchOrdering(
+    sort: FeedSort,
+    assignment?: ExperimentAssignment
+  ): Promise<NewsItem[]> {
+    const cacheKey = this.getCacheKey(sort, assignment);
+    const cached = await this.cacheService.get<NewsItem[]>(cacheKey);
+    if (cached) return cached;
+
+    const existingLock = this.orderLocks.get(cacheKey);
+    if (existingLock) {
+      return existingLock;
+    }
 
-  async fetchMix(): Promise<NewsItem[]> {
+    const orderPromise = this.fetchBaseMix()
+      .then((base) => {
+        const ranked = assignment ? this.rerank(base, assignment.weights) : base;
+        return this.orderMix(ranked, sort, assignment?.weights);
+      })
+      .then(async (ordered) => {
+        await this.cacheService.set(cacheKey, ordered);
+        if (assignment) this.orderCacheKeys.add(cacheKey);
+        return ordered;
+      });
+    this.orderLocks.set(cacheKey, orderPromise);
+
+    try {
+      return await orderPromise;
+    } finally {
+      this.orderLocks.delete(cacheKey);
+    }
+  }
+
+  /**
+   * Every enriched and ranked item, interleaved by source (hot rank)
+   */
+  private async fetchBaseMix(): Promise<NewsItem[]> {
     const cached = await this.cacheService.get<NewsItem[]>(CacheKey.SmartMix);
     if (cached) return cached;
 
@@ -43,75 +146,230 @@ export class SmartMixService {
     }
   }
 
+  /**
+   * Looks an item up in the cached mix, without triggering a fetch
+   */
+  async findCachedItem(source: Source, id: string): Promise<NewsItem | null> {
+    const cached = await this.cacheService.get<NewsItem[]>(CacheKey.SmartMix);
+    return (
+      cached?.find((item) => item.source === source && item.id === id) ?? null
+    );
+  }
+
+  /**
+   * Position of an item in the cached hot feed (1 = first), without triggering a fetch
+   * @returns null when the feed is not cached or the item is not in it
+   */
+  async findFeedPosition(source: Source, id: string): Promise<number | null> {
+    const cached = await this.cacheService.get<NewsItem[]>(this.getCacheKey("hot"));
+    const index =
+      cached?.findIndex((item) => item.source === source && item.id === id) ?? -1;
+    return index >= 0 ? index + 1 : null;
+  }
+
+  /**
+   * Drops the cached mix and every ordering built from it
+   */
+  async invalidate(): Promise<void> {
+    await Promise.all([
+      this.cacheService.delete(CacheKey.SmartMix),
+      this.cacheService.delete(CacheKey.SmartMixBuiltAt),
+      this.invalidateOrderings(),
+    ]);
+  }
+
+  private async invalidateOrderings(): Promise<void> {
+    const keys = [
+      ...FEED_SORTS.map((sort) => this.getCacheKey(sort)),
+      ...this.orderCacheKeys,
+    ];
+    this.orderCacheKeys.clear();
+    await Promise.all(keys.map((key) => this.cacheService.delete(key)));
+  }
+
+  /**
+   * Called whenever a new mix is fetched, enriched and ranked
+   */
+  onMixUpdated(listener: () => void): void {
+    this.mixListeners.push(listener);
+  }
+
+  /**
+   * Status of each enabled source on the last mix
+   * (assumed ok when the mix was restored from cache after a restart)
+   */
+  getSourceStatuses(): SourceStatus[] {
+    const enabled = this.sourceRegistry.getEnabled();
+    return enabled.map(
+      (source) =>
+        this.sourceStatuses?.find((status) => status.name === source.id) ?? {
+          name: source.id,
+          ok: true,
+        }
+    );
+  }
+
   private async doFetchEnrichAndRank(): Promise<NewsItem[]> {
     const startTime = Date.now();
+    const sources = this.sourceRegistry.getEnabled();
+    await this.rankingConfig.ready();
 
-    const [tabNewsResults, hnResults, twitterResults] = await Promise.allSettled([
-      this.tabNewsService.fetchPage(1),
-      this.hackerNewsService.fetchBatch(0),
-      this.twitterService.fetchNews(),
-    ]);
+    const results = await Promise.allSettled(
+      sources.map((source) => source.fetch())
+    );
 
-    const tabNews =
-      tabNewsResults.status === "fulfilled" ? tabNewsResults.value : [];
-    const hn = hnResults.status === "fulfilled" ? hnResults.value : [];
-    const twitter =
-      twitterResults.status === "fulfilled" ? twitterResults.value : [];
-
-    if (
-      tabNewsResults.status === "rejected" &&
-      hnResults.status === "rejected" &&
-      twitterResults.status === "rejected"
-    ) {
+    this.sourceStatuses = results.map((result, index) => ({
+      name: sources[index].id,
+      ok: result.status === "fulfilled",
+      error:
+        result.status === "rejected"
+          ? result.reason instanceof Error
+            ? result.reason.message
+            : String(result.reason)
+          : undefined,
+    }));
+
+    if (results.every((result) => result.status === "rejected")) {
       throw new Error("Não foi possível carregar nenhuma fonte de notícias.");
     }
 
+    const fetched = results.map((result) =>
+      result.status === "fulfilled" ? result.value : []
+    );
+
     const fetchDuration = Date.now() - startTime;
-    this.logger.info(`Fetched news in ${fetchDuration}ms`, {
-      tabNews: tabNews.length,
-      hackerNews: hn.length,
-      twitter: twitter.length,
-    });
+    this.logger.info(
+      `Fetched news in ${fetchDuration}ms`,
+      Object.fromEntries(
+        sources.map((source, index) => [source.slug, fetched[index].length])
+      )
+    );
 
     const enrichStartTime = Date.now();
-    const [enrichedTab, enrichedHn, enrichedTwitter] = await Promise.all([
-      this.enrichmentService.enrichBatch(tabNews),
-      this.enrichmentService.enrichBatch(hn),
-      this.enrichmentService.enrichBatch(twitter),
-    ]);
+    const enriched = await Promise.all(
+      fetched.map((items) =>
+        items.length > 0 ? this.enrichmentService.enrichBatch(items) : []
+      )
+    );
     const enrichDuration = Date.now() - enrichStartTime;
     this.logger.info(`Enriched news in ${enrichDuration}ms`);
 
-    const rankedTab = this.rankItems(enrichedTab, SourceEnum.TabNews);
-    const rankedHn = this.rankItems(enrichedHn, SourceEnum.HackerNews);
-    const rankedTwitter = this.rankItems(enrichedTwitter, SourceEnum.Twitter);
-
-    const mixed = this.interleave(rankedTab, rankedHn, rankedTwitter);
-
-    this.persistAll(
-      tabNews,
-      enrichedTab,
-      rankedTab,
-      hn,
-      enrichedHn,
-      rankedHn,
-      twitter,
-      enrichedTwitter,
-      rankedTwitter,
-      mixed
+    const batches: SourceBatch[] = sources.map((source, index) => {
+      const techFiltered =
+        source.techFilter === "enrichment"
+          ? enriched[index].filter(
+              (e) =>
+                e.techScore >=
+                this.rankingConfig.forSource(source.id).minTechScore
+            )
+          : enriched[index];
+
+      return {
+        source,
+        raw: fetched[index],
+        enriched: enriched[index],
+        ranked: this.rankItems(techFiltered, source.id),
+      };
+    });
+
+    this.assignClusters(batches);
+
+    const mixed = this.interleave(
+      batches.map((batch) => batch.source),
+      batches.map((batch) => batch.ranked.map((ranked) => ranked.data))
     );
 
+    this.persistAll(batches, mixed);
+
     this.logger.info(
-      `SmartMix: mixed ${mixed.length} items (${rankedTab.length} TabNews + ${rankedHn.length} HN + ${rankedTwitter.length} Twitter) in ${
-        Date.now() - startTime
-      }ms`
+      `SmartMix: mixed ${mixed.length} items (${batches
+        .map((batch) => `${batch.ranked.length} ${batch.source.displayName}`)
+        .join(" + ")}) in ${Date.now() - startTime}ms`
     );
 
-    await this.cacheService.set(CacheKey.SmartMix, mixed);
+    await Promise.all([
+      this.cacheService.set(CacheKey.SmartMix, mixed),
+      this.cacheService.set(CacheKey.SmartMixBuiltAt, new Date().toISOString()),
+    ]);
+
+    // Orderings built from the previous mix are stale now
+    await this.invalidateOrderings();
+
+    for (const listener of this.mixListeners) {
+      listener();
+    }
 
     return mixed;
   }
 
+  private getCacheKey(sort: FeedSort, assignment?: ExperimentAssignment): string {
+    return assignment
+      ? `${CacheKey.SmartMix}:${sort}:${assignment.experimentId}:${assignment.variant}`
+      : `${CacheKey.SmartMix}:${sort}`;
+  }
+
+  /**
+   * Hot rank of the mix recomputed with other weights (source order kept)
+   */
+  private rerank(base: NewsItem[], weights: Partial<RankingWeights>): NewsItem[] {
+    const rescored = base.map((item) => ({
+      ...item,
+      score: this.rankingService.calculateRank(
+        { ...item, score: item.originalScore ?? item.score },
+        weights
+      ),
+    }));
+
+    const sources = this.sourceRegistry.getEnabled();
+    return this.interleave(
+      sources,
+      sources.map((source) =>
+        rescored
+          .filter((item) => item.source === source.id)
+          .sort((a, b) => b.score - a.score)
+      )
+    );
+  }
+
+  private async orderMix(
+    base: NewsItem[],
+    sort: FeedSort,
+    weights?: Partial<RankingWeights>
+  ): Promise<NewsItem[]> {
+    const strategy = this.strategyService.get(sort);
+
+    // The same link posted on several sources becomes one item,
+    // then other coverage of the same story is attached to its lead
+    const merged = collapseStoryClusters(
+      mergeDuplicateStories(base, (item) =>
+        this.rankingService.calculateRank(item, weights)
+      )
+    );
+    const candidates = strategy.filter ? merged.filter(strategy.filter) : merged;
+
+    const scoreOf = await strategy.prepare(candidates);
+    const scores = new Map(candidates.map((item) => [item, scoreOf(item)]));
+    const sorted = [...candidates].sort(
+      (a, b) => scores.get(b)! - scores.get(a)!
+    );
+
+    this.logger.info(`SmartMix: ordered ${sorted.length} items by ${sort}`, {
+      before: base.length,
+    });
+
+    if (!strategy.interleave) return sorted;
+
+    // Registry order is the interleaving order
+    const sources = this.sourceRegistry.getEnabled();
+    const interleaved = this.interleave(
+      sources,
+      sources.map((source) => sorted.filter((item) => item.source === source.id))
+    );
+
+    // Interleaving varies sources, not topics, authors or sites
+    return diversify(interleaved, this.rankingConfig.get().diversity);
+  }
+
   private rankItems(
     enrichedItems: EnrichedNewsItem[],
     source: Source
@@ -121,6 +379,7 @@ export class SmartMixService {
         const itemWithTechScore: NewsItem = {
           ...enriched.rawData,
           techScore: enriched.techScore,
+          techScoreOrigin: enriched.techScoreOrigin,
         };
 
         const calculatedScore =
@@ -132,7 +391,10 @@ export class SmartMixService {
           data: {
             ...enriched.rawData,
             score: calculatedScore,
+            originalScore: enriched.rawData.score,
             techScore: enriched.techScore,
+            techScoreOrigin: enriched.techScoreOrigin,
+            keywords: enriched.keywords,
           },
           rank: 0,
           calculatedScore,
@@ -148,52 +410,63 @@ export class SmartMixService {
       .map((item, index) => ({ ...item, rank: index + 1 }));
   }
 
-  private interleave(
-    tabNews: RankedNewsItem[],
-    hn: RankedNewsItem[],
-    twitter: RankedNewsItem[]
-  ): NewsItem[] {
-    const mixed: NewsItem[] = [];
-    const maxLength = Math.max(tabNews.length, hn.length, twitter.length);
+  /**
+   * Groups coverage of the same story (across and within sources)
+   * and sets the cluster id on the ranked items and their data
+   */
+  private assignClusters(batches: SourceBatch[]): void {
+    const ranked = batches.flatMap((batch) => batch.ranked);
+    const keyOf = (item: RankedNewsItem) => `${item.source}:${item.itemId}`;
+
+    const clusterIds = clusterStories(
+      ranked.map((item) => ({
+        key: keyOf(item),
+        title: item.data.title,
+        keywords: item.keywords,
+        publishedAt: item.data.publishedAt,
+      }))
+    );
 
-    for (let i = 0; i < maxLength; i++) {
-      if (i < tabNews.length) mixed.push(tabNews[i].data);
-      if (i < hn.length) mixed.push(hn[i].data);
-      if (i < twitter.length) mixed.push(twitter[i].data);
+    for (const item of ranked) {
+      item.clusterId = clusterIds.get(keyOf(item));
+      item.data.clusterId = item.clusterId;
     }
 
-    return mixed;
+    this.logger.info(
+      `SmartMix: ${ranked.length} items in ${new Set(clusterIds.values()).size} stories`
+    );
+  }
+
+  /**
+   * Merges the sources by their configured share of the slots
+   * (round-robin in registry order without shares)
+   */
+  private interleave(
+    sources: NewsSource[],
+    itemsBySource: NewsItem[][]
+  ): NewsItem[] {
+    const shares = resolveShares(
+      sources.map((source) => source.id),
+      this.rankingConfig.get().sourceShares
+    );
+    return interleaveByShare(itemsBySource, shares);
   }
 
-  private persistAll(
-    rawTab: NewsItem[],
-    enrichedTab: EnrichedNewsItem[],
-    rankedTab: RankedNewsItem[],
-    rawHn: NewsItem[],
-    enrichedHn: EnrichedNewsItem[],
-    rankedHn: RankedNewsItem[],
-    rawTwitter: NewsItem[],
-    enrichedTwitter: EnrichedNewsItem[],
-    rankedTwitter: RankedNewsItem[],
-    mixed: NewsItem[]
-  ): void {
+  private persistAll(batches: SourceBatch[], mixed: NewsItem[]): void {
     this.persistenceService
       .persistAll({
-        raw: [
-          { items: rawTab, source: SourceEnum.TabNews },
-          { items: rawHn, source: SourceEnum.HackerNews },
-          { items: rawTwitter, source: SourceEnum.Twitter },
-        ],
-        enriched: [
-          { items: enrichedTab, source: SourceEnum.TabNews },
-          { items: enrichedHn, source: SourceEnum.HackerNews },
-          { items: enrichedTwitter, source: SourceEnum.Twitter },
-        ],
-        ranked: [
-          { items: rankedTab, source: SourceEnum.TabNews },
-          { items: rankedHn, source: SourceEnum.HackerNews },
-          { items: rankedTwitter, source: SourceEnum.Twitter },
-        ],
+        raw: batches.map((batch) => ({
+          items: batch.raw,
+          source: batch.source.id,
+        })),
+        enriched: batches.map((batch) => ({
+          items: batch.enriched,
+          source: batch.source.id,
+        })),
+        ranked: batches.map((batch) => ({
+          items: batch.ranked,
+          source: batch.source.id,
+        })),
         mixed: { items: mixed, cacheKey: CacheKey.SmartMix },
       })
       .catch((error: Error) =>
@@ -201,27 +474,65 @@ export class SmartMixService {
       );
   }
 
+  /**
+   * A page of the feed. The first page freezes the current ordering in a
+   * snapshot and the cursor points into it (snapshot id + offset).
+   * @throws InvalidCursorError when the cursor is malformed or was issued for another sort or filters
+   * @throws SnapshotExpiredError when the cursor's snapshot expired
+   */
   async fetchMixPaginated(
     limit: number,
-    after?: string
-  ): Promise<{ items: NewsItem[]; nextCursor: string | null }> {
-    const allItems = await this.fetchMix();
+    after?: string,
+    sort: FeedSort = "hot",
+    assignment?: ExperimentAssignment,
+    filters: FeedFilters = {}
+  ): Promise<{
+    items: NewsItem[];
+    nextCursor: string | null;
+    generatedAt: string;
+  }> {
+    const filtersKey = feedFiltersKey(filters);
+    let snapshot: FeedSnapshot;
+    let offset = 0;
 
-    let startIdx = 0;
     if (after) {
-      const idx = allItems.findIndex((item) => item.id === after);
-      if (idx >= 0) {
-        startIdx = idx + 1;
+      const cursor = decodeCursor(after);
+      if (!cursor) throw new InvalidCursorError();
+
+      const stored = await this.snapshotService.get(cursor.s);
+      if (!stored) throw new SnapshotExpiredError();
+      if (stored.sort !== sort) {
+        throw new InvalidCursorError(
+          `Cursor emitido para sort=${stored.sort}, não sort=${sort}`
+        );
+      }
+      if (stored.filters !== filtersKey) {
+        throw new InvalidCursorError("Cursor emitido para outros filtros");
       }
+
+      snapshot = stored;
+      offset = cursor.o;
+    } else {
+      const ordered = await this.fetchMix(sort, assignment, filters);
+      const builtAt = await this.cacheService.get<string>(
+        CacheKey.SmartMixBuiltAt
+      );
+      snapshot = await this.snapshotService.capture(sort, ordered, {
+        variant:
+          assignment && `${assignment.experimentId}:${assignment.variant}`,
+        filters: filtersKey,
+        generatedAt: builtAt ?? undefined,
+      });
     }
 
-    const items = allItems.slice(startIdx, startIdx + limit);
+    const items = snapshot.items.slice(offset, offset + limit);
+    const nextOffset = offset + items.length;
 
     const nextCursor =
-      items.length === limit && startIdx + limit < allItems.length
-        ? items[items.length - 1].id
+      items.length === limit && nextOffset < snapshot.items.length
+        ? encodeCursor({ s: snapshot.id, o: nextOffset })
         : null;
 
-    return { items, nextCursor };
+    return { items, nextCursor, generatedAt: snapshot.generatedAt };
   }
 }
@@ -0,0 +1,163 @@
+import { inject, singleton } from "tsyringe";
+import { Source, type NewsSource } from "../types";
+import { TabNewsService } from "./tabnews.service";
+import { HackerNewsService } from "./hackernews.service";
+import { TwitterService } from "./twitter.service";
+import { DevToService } from "./devto.service";
+import { LobstersService } from "./lobsters.service";
+import { RedditService } from "./reddit.service";
+import { RssService } from "./rss.service";
+import { LoggerService } from "./logger.service";
+
+// Feed ids carry a source prefix (e.g. "reddit-abc123"); upstream APIs want the bare id
+function stripIdPrefix(id: string, prefix: string): string {
+  return id.startsWith(prefix) ? id.slice(prefix.length) : id;
+}
+
+// Numeric upstream id, or null when the id cannot exist
+function toNumericId(id: string): number | null {
+  const numeric = Number(id);
+  return Number.isInteger(numeric) && numeric > 0 ? numeric : null;
+}
+
+/**
+ * Single place where news sources are declared.
+ * FeedService, SmartMixService, persistence and the routes iterate over it,
+ * so adding a source only means registering it here.
+ * Sources can be turned off with DISABLED_SOURCES (comma-separated slugs).
+ */
+@singleton()
+export class SourceRegistryService {
+  private readonly sources = new Map<Source, NewsSource>();
+  private readonly disabled: Set<string>;
+
+  constructor(
+    @inject(TabNewsService) tabNewsService: TabNewsService,
+    @inject(HackerNewsService) hackerNewsService: HackerNewsService,
+    @inject(TwitterService) twitterService: TwitterService,
+    @inject(DevToService) devToService: DevToService,
+    @inject(LobstersService) lobstersService: LobstersService,
+    @inject(RedditService) redditService: RedditService,
+    @inject(RssService) rssService: RssService,
+    @inject(LoggerService) private logger: LoggerService,
+  ) {
+    this.disabled = new Set(
+      (process.env.DISABLED_SOURCES || "")
+        .split(",")
+        .map((slug) => slug.trim().toLowerCase())
+        .filter(Boolean),
+    );
+
+    // Registration order is the interleaving order of the feed
+    this.register({
+      id: Source.TabNews,
+      slug: "tabnews",
+      displayName: "TabNews",
+      techFilter: "self",
+      fetch: () => tabNewsService.fetchPage(1),
+      // The comments endpoint is addressed by owner/slug, not by id
+      fetchComments: async (target) => {
+        const item = await target.resolveItem();
+        if (!item?.owner_username || !item.slug) return null;
+        return tabNewsService.fetchDiscussion(item.owner_username, item.slug);
+      },
+    });
+    this.register({
+      id: Source.HackerNews,
+      slug: "hackernews",
+      displayName: "Hacker News",
+      techFilter: "self",
+      fetch: () => hackerNewsService.fetchBatch(0),
+      fetchComments: async (target) => {
+        const storyId = toNumericId(target.id);
+        if (storyId === null) return null;
+        return hackerNewsService.fetchDiscussion(storyId, {
+          maxDepth: 5,
+          maxComments: 200,
+        });
+      },
+    });
+    this.register({
+      id: Source.Twitter,
+      slug: "twitter",
+      displayName: "Twitter",
+      techFilter: "none",
+      fetch: () => twitterService.fetchNews(),
+    });
+    this.register({
+      id: Source.DevTo,
+      slug: "devto",
+      displayName: "Dev.to",
+      techFilter: "self",
+      fetch: () => devToService.fetchNews(),
+      fetchComments: async (target) => {
+        const articleId = toNumericId(stripIdPrefix(target.id, "devto-"));
+        if (articleId === null) return null;
+        return devToService.fetchDiscussion(articleId);
+      },
+    });
+    this.register({
+      id: Source.Lobsters,
+      slug: "lobsters",
+      displayName: "Lobsters",
+      techFilter: "none",
+      fetch: () => lobstersService.fetchNews(),
+      fetchComments: (target) =>
+        lobstersService.fetchDiscussion(stripIdPrefix(target.id, "lobsters-")),
+    });
+    this.register({
+      id: Source.Reddit,
+      slug: "reddit",
+      displayName: "Reddit",
+      techFilter: "self",
+      fetch: () => redditService.fetchNews(),
+      fetchComments: (target) =>
+        redditService.fetchDiscussion(stripIdPrefix(target.id, "reddit-")),
+    });
+    this.register({
+      id: Source.Rss,
+      slug: "rss",
+      displayName: "RSS",
+      // Generic feeds are not curated: off-topic posts are dropped after enrichment
+      techFilter: "enrichment",
+      fetch: () => rssService.fetchNews(),
+    });
+
+    this.logger.info("news sources registered", {
+      enabled: this.getEnabled().map((s) => s.slug),
+      disabled: [...this.disabled],
+    });
+  }
+
+  register(source: NewsSource): void {
+    if (this.sources.has(source.id)) {
+      throw new Error(`News source ${source.id} already registered`);
+    }
+    this.sources.set(source.id, source);
+  }
+
+  /**
+   * All registered sources, in registration order
+   */
+  getAll(): NewsSource[] {
+    return [...this.sources.values()];
+  }
+
+  getEnabled(): NewsSource[] {
+    return this.getAll().filter((source) => this.isEnabled(source.id));
+  }
+
+  get(id: Source): NewsSource | undefined {
+    return this.sources.get(id);
+  }
+
+  getBySlug(slug: string): NewsSource | undefined {
+    const normalized = slug.toLowerCase();
+    return this.getAll().find((source) => source.slug === normalized);
+  }
+
+  isEnabled(id: Source): boolean {
+    const source = this.sources.get(id);
+    return !!source && !this.disabled.has(source.slug);
+  }
+}
@@ -1,15 +1,19 @@
 import { singleton, inject } from "tsyringe";
-import type { NewsItem, TabNewsItem, Comment } from "../types";
+import type { NewsItem, TabNewsItem, Comment, DiscussionComment } from "../types";
 import { Source, CacheKey } from "../types";
 import { CacheService } from "./cache.service";
 import { GeminiService } from "./gemini.service";
-import { capScoreForCodeHostingSites } from "../utils/scoring";
+import {
+  capTechScore,
+  readCachedTechScore,
+  type SourceTechScore,
+} from "../utils/scoring";
 import { LoggerService } from "./logger.service";
+import { RankingConfigService } from "./ranking-config.service";
 
 @singleton()
 export class TabNewsService {
   private readonly TABNEWS_API = "https://www.tabnews.com.br/api/v1/contents";
-  private readonly MIN_TECH_SCORE = 61; // Minimum score to consider tech-related
   private readonly PER_PAGE = 30; // Items per page from TabNews API
   private fetchLocks: Map<number, Promise<NewsItem[]>> = new Map(); // Lock per page
 
@@ -17,6 +21,8 @@ export class TabNewsService {
     @inject(CacheService) private cacheService: CacheService,
     @inject(GeminiService) private geminiService: GeminiService,
     @inject(LoggerService) private logger: LoggerService,
+    @inject(RankingConfigService)
+    private rankingConfig: RankingConfigService,
   ) {}
 
   /**
@@ -79,7 +85,7 @@ export class TabNewsService {
       title: item.title,
       author: item.owner_username,
       score: item.tabcoins,
-      publishedAt: item.published_at,
+      publishedAt: new Date(item.published_at).toISOString(),
       source: Source.TabNews,
       slug: item.slug,
       owner_username: item.owner_username,
@@ -117,11 +123,13 @@ export class TabNewsService {
     const analysisPromises = items.map(async (item) => {
       // Check if we have cached score for this post
       const cacheKey = `tech-score:${item.id}`;
-      const cachedScore = await this.cacheService.get<number>(cacheKey);
+      const cachedScore = await this.cacheService.get<number | SourceTechScore>(
+        cacheKey,
+      );
 
-      let score: number;
+      let score: SourceTechScore;
       if (cachedScore !== null) {
-        score = cachedScore;
+        score = readCachedTechScore(cachedScore);
       } else {
         this.logger.info("analyzing tech relevance with AI (tabnews)");
         // Analyze with AI
@@ -131,7 +139,7 @@ export class TabNewsService {
         );
 
         // Cap score for code hosting sites
-        score = capScoreForCodeHostingSites(tempScore, item.sourceUrl);
+        score = capTechScore(tempScore, item.sourceUrl);
 
         // Cache score for 24 hours (86400 seconds)
         await this.cacheService.set(cacheKey, score, 86400);
@@ -143,23 +151,67 @@ export class TabNewsService {
     // Wait for all analyses to complete
     const results = await Promise.all(analysisPromises);
 
-    // Filter items with score >= MIN_TECH_SCORE and attach techScore to each item
+    // Filter items with score >= minTechScore and attach techScore to each item
+    const { minTechScore } = this.rankingConfig.forSource(Source.TabNews);
     const filtered = results
-      .filter(({ score }) => score >= this.MIN_TECH_SCORE)
+      .filter(({ score }) => score.score >= minTechScore)
       .map(({ item, score }) => ({
         ...item,
-        techScore: score, // Add AI score to NewsItem for ranking
+        techScore: score.score, // Add AI score to NewsItem for ranking
+        techScoreCapped: score.codeHostingCapped,
       }));
 
     return filtered;
   }
 
   async fetchComments(username: string, slug: string): Promise<Comment[]> {
+    const comments = await this.findComments(username, slug);
+    if (!comments) throw new Error("Falha ao carregar comentários");
+    return comments;
+  }
+
+  /**
+   * Fetches the comments of a post as DiscussionComment (tabcoins as score)
+   * @returns Comments, or null when the post does not exist
+   */
+  async fetchDiscussion(
+    username: string,
+    slug: string,
+  ): Promise<DiscussionComment[] | null> {
+    const comments = await this.findComments(username, slug);
+    if (!comments) return null;
+
+    const toDiscussion = (
+      comment: Comment,
+      depth: number,
+    ): DiscussionComment => ({
+      id: comment.id,
+      source: Source.TabNews,
+      parentId: depth === 0 ? null : comment.parent_id,
+      depth,
+      author: comment.owner_username,
+      body: comment.body,
+      score: comment.tabcoins ?? null,
+      createdAt: comment.created_at,
+      permalink: `https://www.tabnews.com.br/${comment.owner_username}/${comment.slug}`,
+      children: (comment.children ?? []).map((child) =>
+        toDiscussion(child, depth + 1),
+      ),
+    });
+
+    return comments.map((comment) => toDiscussion(comment, 0));
+  }
+
+  private async findComments(
+    username: string,
+    slug: string,
+  ): Promise<Comment[] | null> {
     const cacheKey = `${CacheKey.TabNewsComments}:${username}:${slug}`;
     const cached = await this.cacheService.get<Comment[]>(cacheKey);
     if (cached) return cached;
 
     const res = await fetch(`${this.TABNEWS_API}/${username}/${slug}/children`);
+    if (res.status === 404) return null;
     if (!res.ok) throw new Error("Falha ao carregar comentários");
     const comments = (await res.json()) as Comment[];
 
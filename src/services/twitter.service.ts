@@ -112,7 +112,7 @@ export class TwitterService {
           author: `${name} (@${username})`,
           source: Source.Twitter,
           score: tweet.public_metrics?.like_count || 0,
-          publishedAt: tweet.created_at || new Date().toISOString(),
+          publishedAt: new Date(tweet.created_at || Date.now()).toISOString(),
           url: `https://twitter.com/${username}/status/${tweet.id}`,
           sourceUrl: `https://twitter.com/${username}/status/${tweet.id}`,
           owner_username: username,
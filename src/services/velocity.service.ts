@@ -0,0 +1,56 @@
+import { inject, singleton } from "tsyringe";
+import { DataWarehouseService } from "./data-warehouse.service";
+import { RankingService, VELOCITY_WINDOW_HOURS } from "./ranking.service";
+import { CacheService } from "./cache.service";
+import { LoggerService } from "./logger.service";
+import { CacheKey, type ItemVelocity, type NewsItem } from "../types";
+
+/**
+ * Engagement velocity of feed items, from the item_snapshots history
+ */
+@singleton()
+export class VelocityService {
+  constructor(
+    @inject(DataWarehouseService) private warehouse: DataWarehouseService,
+    @inject(RankingService) private rankingService: RankingService,
+    @inject(CacheService) private cacheService: CacheService,
+    @inject(LoggerService) private logger: LoggerService
+  ) {}
+
+  /**
+   * @returns Velocity of every item, keyed by `${source}:${id}`
+   */
+  async getVelocities(items: NewsItem[]): Promise<Map<string, ItemVelocity>> {
+    const keyOf = (item: NewsItem) => `${item.source}:${item.id}`;
+
+    const cached =
+      (await this.cacheService.get<Record<string, ItemVelocity>>(
+        CacheKey.Velocity
+      )) ?? {};
+    const missing = items.filter((item) => !cached[keyOf(item)]);
+
+    if (missing.length > 0) {
+      const since = new Date(Date.now() - VELOCITY_WINDOW_HOURS * 60 * 60 * 1000);
+      const snapshots = await this.warehouse.getSnapshotsForItems(
+        missing.map((item) => ({ source: item.source, itemId: item.id })),
+        since
+      );
+
+      for (const item of missing) {
+        cached[keyOf(item)] = this.rankingService.calculateVelocity(
+          item,
+          snapshots.get(keyOf(item)) ?? []
+        );
+      }
+
+      this.logger.info(
+        `Calculated velocity of ${missing.length} items (${snapshots.size} with snapshots)`
+      );
+
+      // Merged into the cached velocities, so feed pages share them
+      await this.cacheService.set(CacheKey.Velocity, cached);
+    }
+
+    return new Map(items.map((item) => [keyOf(item), cached[keyOf(item)]]));
+  }
+}
@@ -4,6 +4,8 @@ export enum Source {
   DevTo = "DevTo",
   Lobsters = "Lobsters",
   Twitter = "Twitter",
+  Reddit = "Reddit",
+  Rss = "Rss",
 }
 
 export enum CacheKey {
@@ -11,38 +13,168 @@ export enum CacheKey {
   HackerNews = "hackernews",
   Twitter = "twitter",
   TabNewsComments = "comments",
+  HackerNewsComments = "comments:hackernews",
+  DiscussionComments = "comments:items",
   SmartMix = "smartmix",
+  SmartMixBuiltAt = "smartmix-built-at",
+  Velocity = "velocity",
   Lobsters = "lobsters",
   DevTo = "devto",
+  Reddit = "reddit",
+  Rss = "rss",
+  Analytics = "analytics",
 }
 
 export interface Comment {
   id: string;
   parent_id: string | null;
   owner_username: string;
+  slug?: string; // TabNews comments are contents with their own slug
   body: string;
   created_at: string;
   children: Comment[];
   tabcoins?: number;
 }
 
+// Source-agnostic comment, returned by /api/items/:source/:id/comments
+export interface DiscussionComment {
+  id: string;
+  source: Source;
+  parentId: string | null;
+  depth: number; // 0 = top-level
+  author: string;
+  body: string; // Markdown
+  score: number | null; // null when the source does not expose comment scores
+  createdAt: string; // ISO String
+  permalink: string;
+  children: DiscussionComment[];
+}
+
+export type CommentSort = "top" | "new";
+
+// Item whose comments are requested; the item itself is only resolved
+// by sources that need more than the id (e.g. TabNews owner/slug)
+export interface CommentTarget {
+  id: string;
+  resolveItem: () => Promise<NewsItem | null>;
+}
+
 export interface NewsItem {
   id: string;
   title: string;
   author: string;
   score: number;
-  publishedAt: string; // ISO String
+  publishedAt: string; // ISO String in UTC (toISOString), so dates compare as strings
   source: Source;
   url?: string; // External URL for HN
-  sourceUrl?: string | null; // External URL for TabNews (if link post)
+  sourceUrl?: string | null; // External URL for TabNews (if link post), discussion URL for Lobsters/Reddit
   slug?: string; // TabNews slug
   owner_username?: string; // TabNews owner
   body?: string; // Markdown content
   commentCount?: number;
   techScore?: number; // AI-based tech relevance score (0-100)
+  techScoreOrigin?: TechScoreOrigin; // How techScore was obtained (set on enrichment)
+  techScoreCapped?: boolean | null; // Source tech filter lowered techScore for code hosting (null = unknown)
+  tags?: string[]; // e.g. "show_hn", "ask_hn", "job" for Hacker News posts
+  originalScore?: number; // Score on the source (points, tabcoins, ...) before ranking
+  discussions?: StoryDiscussion[]; // Set when the same link was posted on several sources
+  rankedFrom?: RankInput; // Engagement the merged score was ranked from (with discussions)
+  clusterId?: string; // Story cluster (items covering the same story share it)
+  related?: RelatedStory[]; // Other coverage of the same story (feed only)
+  keywords?: string[]; // Tech keywords found on enrichment
 }
 
-export type ViewMode = "mix" | "tabnews" | "hackernews";
+// Engagement a merged story was ranked from (score = score on the source)
+export type RankInput = Pick<
+  NewsItem,
+  "score" | "commentCount" | "publishedAt" | "techScore"
+>;
+
+// How an item's techScore was obtained
+export interface TechScoreOrigin {
+  method: "gemini" | "keyword-fallback";
+  scoredBy: "source" | "enrichment"; // Source tech filter or EnrichmentService
+  codeHostingCapped: boolean | null; // Capped by capScoreForCodeHostingSites (null = unknown)
+}
+
+// Breakdown of RankingService.calculateRank
+export interface RankExplanation {
+  score: number; // Score on the source
+  comments: number;
+  engagement: number;
+  normalization: "log" | "percentile";
+  engagementPercentile: number | null; // 0-1 within the source (percentile normalization)
+  normalizedScore: number; // log10(engagement) or percentile * 3
+  ageInHours: number;
+  ageDecay: number;
+  techScore: number;
+  techBoost: number;
+  commentPenalty: number;
+  reputation: ReputationBoost;
+  final: number;
+  techScoreOrigin: TechScoreOrigin | null;
+}
+
+// Rank multiplier from the history of the item's domain and author
+export interface ReputationBoost {
+  domain: number | null; // Multiplier of the domain (null = unknown or too few posts)
+  author: number | null;
+  multiplier: number; // Applied to the rank (domain * author, bounded)
+}
+
+// response from the /api/items/:source/:id endpoint
+export interface ItemDetail {
+  source: Source;
+  id: string;
+  item: NewsItem; // Latest version, score = score on the source
+  enrichment: {
+    techScore: number;
+    techScoreConfidence: number | null; // null: only known from the cached feed
+    techScoreOrigin: TechScoreOrigin | null;
+    keywords: string[];
+    isTechNews: boolean | null;
+    linkMetadata: EnrichedNewsItem["linkMetadata"] | null;
+    enrichedAt: string | null; // ISO String
+  } | null;
+  ranking: {
+    calculatedScore: number; // Hot rank
+    rank: number | null; // Position within its source on the last ranking (1 = first)
+    feedPosition: number | null; // Position in the cached hot feed (1 = first), null when not in it
+    clusterId: string | null;
+    rankedAt: string | null; // ISO String
+  } | null;
+  firstSeenAt: string | null; // ISO String, first fetch (null before it was recorded)
+  lastSeenAt: string | null; // ISO String, latest fetch
+}
+
+// response from the /api/items/:source/:id/rank-explain endpoint
+export interface ItemRankExplanation {
+  source: Source;
+  id: string;
+  title: string;
+  explain: RankExplanation;
+}
+
+// Another item of the same story cluster, attached to the cluster lead
+export interface RelatedStory {
+  source: Source;
+  id: string;
+  title: string;
+  author: string;
+  url: string | null;
+  score: number;
+  commentCount: number;
+  publishedAt: string; // ISO String
+}
+
+// One source where a story is discussed (see mergeDuplicateStories)
+export interface StoryDiscussion {
+  source: Source;
+  id: string;
+  score: number; // Score on the source
+  commentCount: number;
+  url: string | null; // Discussion page
+}
 
 // API Response types (Simplified)
 export interface TabNewsItem {
@@ -57,6 +189,9 @@ export interface TabNewsItem {
   source_url?: string | null;
 }
 
+// Hacker News listings (topstories, beststories, newstories, askstories, showstories, jobstories)
+export type HackerNewsList = "top" | "best" | "new" | "ask" | "show" | "job";
+
 // Official Firebase API Type
 export interface HackerNewsItem {
   id: number;
@@ -67,9 +202,24 @@ export interface HackerNewsItem {
   url?: string;
   text?: string; // Story/comment body (HTML) - only present for Ask HN, Show HN, etc
   descendants?: number; // comment count
+  kids?: number[]; // IDs of direct replies, in ranked order
+  parent?: number; // Parent item (comments only)
+  deleted?: boolean;
+  dead?: boolean;
   type: string;
 }
 
+// Hacker News comment with its fetched replies
+export interface HackerNewsCommentNode {
+  item: HackerNewsItem;
+  children: HackerNewsCommentNode[];
+}
+
+export interface CommentTreeOptions {
+  maxDepth: number; // 1 = top-level comments only
+  maxComments: number; // Total comments fetched across all levels
+}
+
 // Cache interface
 export interface CacheEntry<T> {
   data: T;
@@ -122,6 +272,26 @@ export interface RedditResponse {
   };
 }
 
+export interface RedditComment {
+  kind: string; // "t1" for comments, "more" for collapsed replies
+  data: {
+    id: string;
+    author: string;
+    body: string; // Markdown
+    score: number;
+    created_utc: number; // Unix timestamp
+    permalink: string;
+    parent_id: string; // "t1_<comment>" or "t3_<post>"
+    replies: RedditCommentListing | "";
+  };
+}
+
+export interface RedditCommentListing {
+  data: {
+    children: RedditComment[];
+  };
+}
+
 // Twitter/X API Response Types
 export interface TwitterTweet {
   id: string;
@@ -198,6 +368,17 @@ export interface DevToArticle {
   reading_time_minutes: number;
 }
 
+export interface DevToComment {
+  id_code: string;
+  created_at: string; // ISO 8601
+  body_html: string;
+  user: {
+    name: string;
+    username: string;
+  };
+  children: DevToComment[];
+}
+
 export interface ArticleWithAuthor {
   article: DevToArticle;
   username: string;
@@ -221,8 +402,196 @@ export interface LobstersItem {
   tags: string[];
 }
 
+export interface LobstersComment {
+  short_id: string;
+  short_id_url: string;
+  created_at: string; // ISO 8601
+  is_deleted: boolean;
+  is_moderated: boolean;
+  score: number;
+  comment: string; // HTML
+  comment_plain: string; // Markdown source
+  depth: number;
+  parent_comment: string | null; // short_id of the parent
+  commenting_user: string;
+}
+
+export interface LobstersStory extends LobstersItem {
+  comments: LobstersComment[];
+}
+
+// Tech relevance filtering applied to a news source
+// - "self": the source service already drops non-tech items (AI score)
+// - "enrichment": items below the minimum enriched techScore are dropped by SmartMix
+// - "none": every item is kept (curated sources)
+export type TechFilterPolicy = "self" | "enrichment" | "none";
+
+// A pluggable news source, registered in SourceRegistryService
+export interface NewsSource {
+  id: Source;
+  slug: string; // used in routes, e.g. /api/news/:slug
+  displayName: string;
+  techFilter: TechFilterPolicy;
+  fetch: () => Promise<NewsItem[]>;
+  fetchComments?: (target: CommentTarget) => Promise<DiscussionComment[] | null>; // null = item not found
+}
+
+// Engagement momentum of an item (see RankingService.calculateVelocity)
+export type Trend = "rising" | "steady" | "falling";
+
+export interface ItemVelocity {
+  velocity: number; // Engagement gained per hour
+  trend: Trend;
+  basedOn: "snapshots" | "average"; // "average": seen only once, average since publication
+}
+
+// Ranking and tech filter parameters (see RankingConfigService)
+export interface RankingWeights {
+  likeWeight: number; // Engagement weight of a point/like
+  commentWeight: number; // Engagement weight of a comment
+  gravity: number; // Age decay exponent
+  techScoreWeight: number; // Rank boost per techScore point
+  zeroCommentPenalty: number; // Rank multiplier for items without comments
+  fewCommentsPenalty: number; // Rank multiplier below fewCommentsThreshold
+  fewCommentsThreshold: number;
+  minTechScore: number; // Minimum techScore to enter the feed (0-100)
+}
+
+// Global weights with per-source overrides
+export interface RankingConfig {
+  weights: RankingWeights;
+  sources: Partial<Record<Source, Partial<RankingWeights>>>;
+  sourceShares: Partial<Record<Source, number>>; // Target share of feed slots (0-1)
+  diversity: DiversityConfig;
+  calibration: CalibrationConfig;
+  reputation: ReputationConfig;
+  experiment: Experiment | null; // Running A/B experiment
+  updatedAt: string | null; // ISO String, null for the built-in defaults
+}
+
+// Where admin updates of the ranking config are stored ("memory" = this instance only)
+export type RankingConfigStorage = "mongodb" | "file" | "memory";
+
+// Re-ranking of the feed for topic/domain/author variety (see diversify)
+export interface DiversityConfig {
+  strength: number; // 0 disables, 1 = variety only
+  window: number; // Previous items each candidate is compared with
+  topN: number; // Author/domain caps apply to the first topN items
+  maxPerAuthor: number;
+  maxPerDomain: number;
+}
+
+// Percentile-normalized engagement (see CalibrationService)
+export interface CalibrationConfig {
+  enabled: boolean; // false = log10 engagement for every source
+  minSamples: number; // Sources with fewer ranked items keep log10
+  windowDays: number; // Ranked items used to build the tables
+}
+
+// Engagement percentiles of a source, from its recently ranked items
+export interface CalibrationTable {
+  source: Source;
+  sampleSize: number;
+  score: number[]; // Score on the source at p0, p5, ..., p100
+  comments: number[]; // Comment count at p0, p5, ..., p100
+  computedAt: string; // ISO String
+}
+
+// response from the /api/analytics/calibration endpoint
+export interface ScoreCalibration {
+  enabled: boolean;
+  minSamples: number;
+  windowDays: number;
+  tables: CalibrationTable[];
+}
+
+// Domain/author reputation (see ReputationService)
+export interface ReputationConfig {
+  enabled: boolean;
+  maxAdjustment: number; // Largest boost/penalty, e.g. 0.15 = rank x0.85 to x1.15
+  minPosts: number; // Domains/authors with fewer posts stay neutral
+  windowDays: number; // Enriched items used to build the reputation
+}
+
+export type ReputationKind = "domain" | "author";
+
+// Track record of a domain or author over its recently enriched posts
+export interface ReputationEntry {
+  kind: ReputationKind;
+  key: string; // Domain, or "source:author" (usernames are per source)
+  name: string;
+  sources: Source[];
+  posts: number;
+  avgTechScore: number;
+  avgEngagementPercentile: number; // 0-1, within the source of each post
+  reputation: number; // 0-1, 0.5 = neutral (few posts stay close to it)
+  computedAt: string; // ISO String
+}
+
+// response from the /api/analytics/domains and /api/analytics/authors endpoints
+export interface ReputationLeaderboard {
+  kind: ReputationKind;
+  order: "top" | "bottom";
+  enabled: boolean;
+  minPosts: number;
+  entries: Array<ReputationEntry & { multiplier: number }>;
+}
+
+// Ranking weights tested against each other (see ExperimentService)
+export interface Experiment {
+  id: string;
+  variants: ExperimentVariant[];
+}
+
+export interface ExperimentVariant {
+  id: string;
+  traffic: number; // Share of clients (0-1, variants add up to 1)
+  weights: Partial<RankingWeights>; // Applied over the config weights
+}
+
+// Variant a client was assigned to (stable per X-Client-Id)
+export interface ExperimentAssignment {
+  experimentId: string;
+  variant: string;
+  clientId: string;
+  weights: Partial<RankingWeights>;
+}
+
+// Impressions and clicks of one variant
+export interface VariantStats {
+  variant: string;
+  impressions: number;
+  clicks: number;
+  ctr: number; // clicks / impressions
+}
+
+// response from the /api/experiments/summary endpoint
+export interface ExperimentSummary {
+  experimentId: string;
+  active: boolean;
+  variants: VariantStats[];
+  generatedAt: string; // ISO String
+}
+
+// Feed orderings (see RankingStrategyService)
+export type FeedSort = "hot" | "top" | "new" | "discussed" | "rising";
+
+// A feed ordering, registered in RankingStrategyService
+export interface RankingStrategy {
+  id: FeedSort;
+  description: string;
+  interleave: boolean; // Round-robin over sources after sorting (false = one global order)
+  filter?: (item: NewsItem) => boolean; // Items left out of this ordering
+  // Resolves the scoring function for a mix (higher first)
+  prepare: (items: NewsItem[]) => Promise<(item: NewsItem) => number>;
+}
+
 // feed item type - only news items
-export type FeedItem = { type: "news" } & NewsItem;
+export type FeedItem = {
+  type: "news";
+  trend?: Trend;
+  explain?: RankExplanation; // Only with ?explain=true
+} & NewsItem;
 
 // status of each news source
 export interface SourceStatus {
@@ -235,9 +604,77 @@ export interface SourceStatus {
 export interface FeedResponse {
   items: FeedItem[];
   nextCursor: string | null;
+  generatedAt: string | null; // ISO String, when the mix was built (null when it failed)
   sources: SourceStatus[];
+  experiment?: { id: string; variant: string }; // Set when the client is in an experiment
+}
+
+// /api/feed filters, applied before pagination (see parseFeedFilters)
+export interface FeedFilters {
+  sources?: Source[];
+  excludeSources?: Source[];
+  keywords?: string[]; // Any of them, lowercase
+  minTechScore?: number;
+  since?: string; // ISO String, published at or after
+  until?: string; // ISO String, published at or before
+  minComments?: number;
+  hasUrl?: boolean; // true = link posts, false = self posts
+}
+
+// /api/search query (filters: sources, since, until and minTechScore)
+export interface SearchParams {
+  q: string;
+  filters: FeedFilters;
+}
+
+export interface SearchHit extends NewsItem {
+  relevance: number; // Text relevance and recency combined (0-1)
+  highlight: {
+    title: string; // HTML-escaped, matches wrapped in <mark>
+    snippet: string | null; // Body excerpt around the first match
+  };
+}
+
+// response from the /api/search endpoint
+export interface SearchResponse {
+  query: string;
+  items: SearchHit[];
+  nextCursor: string | null;
+  backend: "warehouse" | "memory"; // memory: MONGODB_URI not set
+}
+
+// Frozen feed ordering that paginated clients read from (see FeedSnapshotService)
+export interface FeedSnapshot {
+  id: string;
+  sort: FeedSort;
+  filters: string; // feedFiltersKey of the filters ("" = none)
+  items: NewsItem[];
+  generatedAt: string; // ISO String, when the mix it was ordered from was built
+  createdAt: string; // ISO String
+  expiresAt: string; // ISO String
+}
+
+// /api/feed/stream changes of the hot feed top (positions: 1 = first)
+export interface FeedStreamNewItem {
+  position: number;
+  item: NewsItem;
+}
+
+export interface FeedStreamRankChange {
+  source: Source;
+  id: string;
+  from: number;
+  to: number | null; // null when the item left the top
 }
 
+export type FeedStreamEvent = { id: string } & (
+  | { type: "new-items"; data: { items: FeedStreamNewItem[] } }
+  | { type: "rank-changes"; data: { changes: FeedStreamRankChange[] } }
+  | { type: "source-status"; data: { sources: SourceStatus[] } }
+  // Missed events are gone (expired) or the client fell behind (overflow): reload /api/feed
+  | { type: "reset"; data: { reason: "expired" | "overflow" } }
+);
+
 // ============================================
 // PERSISTENCE & ANALYTICS TYPES
 // ============================================
@@ -270,6 +707,7 @@ export interface EnrichedNewsItem {
   // AI Analysis
   techScore: number; // 0-100
   techScoreConfidence: number; // 0-1
+  techScoreOrigin?: TechScoreOrigin;
 
   // Keywords extracted
   keywords: string[];
@@ -295,15 +733,34 @@ export interface RankedNewsItem {
   originalScore: number; // Original source score
   techScore: number;
   keywords: string[];
+  clusterId?: string;
   rankedAt: Date;
 }
 
+// Point of an item's history, recorded on every fetch (downsampled over time)
+export interface ItemSnapshot {
+  capturedAt: string; // ISO String
+  score: number; // Score on the source (points, tabcoins, ...)
+  commentCount: number;
+  rank: number; // Rank within its source
+  calculatedScore: number;
+}
+
+// response from the /api/items/:source/:id/history endpoint
+export interface ItemHistory {
+  source: Source;
+  id: string;
+  period: AnalyticsPeriod;
+  snapshots: ItemSnapshot[];
+}
+
 // Analytics Types
 export type AnalyticsPeriod = "24h" | "7d" | "30d";
 
 export interface TrendingTopic {
   keyword: string;
-  count: number;
+  count: number; // Posts
+  storyCount: number; // Distinct story clusters
   avgScore: number;
   sources: Source[];
   topArticles: Array<{
@@ -327,6 +784,22 @@ export interface AnalyticsResponse {
   trending: TrendingTopic[];
   sourceStats: SourceStats[];
   totalProcessed: number;
+  totalStories: number; // Distinct story clusters
+}
+
+// Processing logs of one pipeline step
+export interface ProcessingStepStats {
+  total: number;
+  successful: number;
+  failed: number;
+  avgDuration: number;
+}
+
+// response from the /api/analytics/stats endpoint
+export interface AnalyticsStats {
+  warehouse: WarehouseStats;
+  processing: Record<"fetch" | "enrich" | "rank" | "mix", ProcessingStepStats>; // Last 24h
+  generatedAt: string;
 }
 
 // Warehouse Stats
@@ -334,6 +807,7 @@ export interface WarehouseStats {
   rawCount: number;
   enrichedCount: number;
   rankedCount: number;
+  storyCount: number; // Distinct story clusters in ranked_news
   mixedCount: number;
   logsCount: number;
   oldestRecord?: Date;
@@ -0,0 +1,34 @@
+import { describe, it, expect } from "vitest";
+import { buildPercentileTable, percentileOf } from "./calibration";
+
+describe("buildPercentileTable", () => {
+  it("should interpolate every 5th percentile", () => {
+    const table = buildPercentileTable(Array.from({ length: 101 }, (_, i) => i));
+
+    expect(table).toHaveLength(21);
+    expect(table[0]).toBe(0);
+    expect(table[10]).toBe(50);
+    expect(table[20]).toBe(100);
+  });
+});
+
+describe("percentileOf", () => {
+  const table = buildPercentileTable(Array.from({ length: 101 }, (_, i) => i * 2));
+
+  it("should place values between breakpoints", () => {
+    expect(percentileOf(100, table)).toBeCloseTo(0.5);
+    expect(percentileOf(105, table)).toBeCloseTo(0.525);
+  });
+
+  it("should clamp values outside the table", () => {
+    expect(percentileOf(-5, table)).toBe(0);
+    expect(percentileOf(1000, table)).toBe(1);
+  });
+
+  it("should give repeated values the middle of their range", () => {
+    const skewed = buildPercentileTable([...Array(50).fill(0), ...Array(50).fill(10)]);
+
+    expect(percentileOf(0, skewed)).toBeCloseTo(0.225);
+    expect(percentileOf(10, skewed)).toBeCloseTo(0.775);
+  });
+});
@@ -0,0 +1,42 @@
+// Breakpoints every 5th percentile: p0, p5, ..., p100
+export const PERCENTILE_STEPS = 20;
+
+/**
+ * Value at every 5th percentile of the samples (linear interpolation)
+ */
+export function buildPercentileTable(values: number[]): number[] {
+  if (values.length === 0) return [];
+
+  const sorted = [...values].sort((a, b) => a - b);
+  return Array.from({ length: PERCENTILE_STEPS + 1 }, (_, step) => {
+    const position = (step / PERCENTILE_STEPS) * (sorted.length - 1);
+    const lower = Math.floor(position);
+    const upper = Math.ceil(position);
+    return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+  });
+}
+
+/**
+ * Percentile (0-1) of a value in a table from buildPercentileTable.
+ * Values shared by several breakpoints (e.g. many 0-comment posts)
+ * get the middle of the range they cover.
+ */
+export function percentileOf(value: number, table: number[]): number {
+  if (table.length === 0) return 0;
+
+  const last = table.length - 1;
+  if (value < table[0]) return 0;
+  if (value > table[last]) return 1;
+
+  const first = table.findIndex((breakpoint) => breakpoint >= value);
+  if (table[first] === value) {
+    let end = first;
+    while (end < last && table[end + 1] === value) end++;
+    return (first + end) / 2 / last;
+  }
+
+  // table[first - 1] < value < table[first]
+  const below = table[first - 1];
+  const fraction = (value - below) / (table[first] - below);
+  return (first - 1 + fraction) / last;
+}
@@ -0,0 +1,91 @@
+import { describe, it, expect } from "vitest";
+import { Source, type NewsItem } from "../types";
+import { clusterStories, collapseStoryClusters, titleShingles } from "./clustering";
+
+describe("titleShingles", () => {
+  it("should drop stopwords, accents and inflections", () => {
+    expect([...titleShingles("Bun 2.0 is released!")]).toEqual(["bun", "2.0", "releas"]);
+    expect([...titleShingles("Lançamento do Bun 2.0")]).toEqual(["lancamento", "bun", "2.0"]);
+  });
+});
+
+describe("clusterStories", () => {
+  const candidate = (key: string, title: string, publishedAt: string, keywords: string[] = []) => ({
+    key,
+    title,
+    keywords,
+    publishedAt,
+  });
+
+  it("should group coverage of the same story", () => {
+    const clusters = clusterStories([
+      candidate("TabNews:1", "Bun 2.0 released", "2025-01-01T12:00:00.000Z", ["bun"]),
+      candidate("DevTo:2", "Bun 2.0 is out: what's new", "2025-01-01T10:00:00.000Z", ["bun"]),
+      candidate("HackerNews:3", "Releasing Bun 2.0", "2025-01-01T11:00:00.000Z"),
+      candidate("HackerNews:4", "Postgres 18 released", "2025-01-01T09:00:00.000Z"),
+    ]);
+
+    const bun = clusters.get("TabNews:1");
+    expect(clusters.get("DevTo:2")).toBe(bun);
+    expect(clusters.get("HackerNews:3")).toBe(bun);
+    expect(clusters.get("HackerNews:4")).not.toBe(bun);
+  });
+
+  it("should derive the cluster id from the earliest item", () => {
+    const first = clusterStories([
+      candidate("DevTo:2", "Bun 2.0 released", "2025-01-01T10:00:00.000Z"),
+    ]);
+    const later = clusterStories([
+      candidate("TabNews:1", "Bun 2.0 released today", "2025-01-01T12:00:00.000Z"),
+      candidate("DevTo:2", "Bun 2.0 released", "2025-01-01T10:00:00.000Z"),
+    ]);
+
+    expect(later.get("TabNews:1")).toBe(first.get("DevTo:2"));
+  });
+
+  it("should not link items sharing a single word", () => {
+    const clusters = clusterStories([
+      candidate("HackerNews:1", "Rust in the kernel", "2025-01-01T10:00:00.000Z", ["rust"]),
+      candidate("HackerNews:2", "Rust compile times", "2025-01-01T10:00:00.000Z", ["rust"]),
+    ]);
+
+    expect(clusters.get("HackerNews:1")).not.toBe(clusters.get("HackerNews:2"));
+  });
+});
+
+describe("collapseStoryClusters", () => {
+  const item = (id: string, score: number, clusterId?: string): NewsItem => ({
+    id,
+    title: `Title ${id}`,
+    author: "author",
+    score,
+    publishedAt: "2025-01-01T10:00:00.000Z",
+    source: Source.DevTo,
+    url: `https://dev.to/post-${id}`,
+    commentCount: 3,
+    clusterId,
+  });
+
+  it("should keep the best ranked item with the others as related", () => {
+    const collapsed = collapseStoryClusters([
+      item("a", 10, "story-1"),
+      item("b", 50),
+      item("c", 30, "story-1"),
+    ]);
+
+    expect(collapsed.map((i) => i.id)).toEqual(["c", "b"]);
+    expect(collapsed[0].related).toEqual([
+      {
+        source: Source.DevTo,
+        id: "a",
+        title: "Title a",
+        author: "author",
+        url: "https://dev.to/post-a",
+        score: 10,
+        commentCount: 3,
+        publishedAt: "2025-01-01T10:00:00.000Z",
+      },
+    ]);
+    expect(collapsed[1].related).toBeUndefined();
+  });
+});
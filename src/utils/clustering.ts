@@ -0,0 +1,182 @@
+import { createHash } from "crypto";
+import type { NewsItem, RelatedStory } from "../types";
+import { getDiscussionUrl } from "./url";
+
+export interface ClusterCandidate {
+  key: string; // Unique item key, e.g. "HackerNews:42"
+  title: string;
+  keywords?: string[];
+  publishedAt: string; // ISO String
+}
+
+export interface ClusteringOptions {
+  threshold: number; // Minimum Jaccard similarity between two items (0-1)
+  minShared: number; // Minimum number of shared shingles
+}
+
+const DEFAULT_OPTIONS: ClusteringOptions = { threshold: 0.5, minShared: 2 };
+
+// English and Portuguese words that carry no topic
+const STOPWORDS = new Set([
+  "a", "an", "the", "and", "or", "of", "to", "in", "on", "for", "with", "is",
+  "are", "was", "be", "it", "its", "this", "that", "from", "by", "at", "as",
+  "how", "why", "what", "we", "you", "i", "my", "our", "your", "new", "now",
+  "o", "os", "um", "uma", "de", "do", "da", "dos", "das", "e", "em",
+  "no", "na", "nos", "nas", "para", "por", "com", "que", "se", "como", "seu",
+  "sua", "mais", "ao",
+]);
+
+const SUFFIXES = ["ing", "ed", "es", "s"];
+
+// Light stemming, so "release", "released" and "releases" match
+function stem(word: string): string {
+  if (/\d/.test(word)) return word;
+
+  let stemmed = word;
+  for (const suffix of SUFFIXES) {
+    if (stemmed.endsWith(suffix) && stemmed.length - suffix.length >= 3) {
+      stemmed = stemmed.slice(0, -suffix.length);
+      break;
+    }
+  }
+  if (stemmed.length > 4 && stemmed.endsWith("e")) {
+    stemmed = stemmed.slice(0, -1);
+  }
+  return stemmed;
+}
+
+/**
+ * Word shingles of a title: lowercase, accents removed, stopwords dropped,
+ * light stemming. Version numbers ("2.0") and names like "c++"/"c#" are kept.
+ */
+export function titleShingles(title: string): Set<string> {
+  const words = title
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .split(/[^a-z0-9.+#]+/)
+    .map((word) => word.replace(/^\.+|\.+$/g, ""))
+    .filter((word) => word.length > 1 || /\d/.test(word))
+    .filter((word) => !STOPWORDS.has(word));
+
+  return new Set(words.map(stem));
+}
+
+function similarity(a: Set<string>, b: Set<string>): { jaccard: number; shared: number } {
+  let shared = 0;
+  for (const shingle of a) {
+    if (b.has(shingle)) shared++;
+  }
+  const union = a.size + b.size - shared;
+  return { jaccard: union === 0 ? 0 : shared / union, shared };
+}
+
+/**
+ * Groups items covering the same story by title (and keyword) similarity.
+ * Similar pairs are linked and linked items form a cluster (union-find).
+ * The cluster id is derived from the earliest item, so it stays stable
+ * while newer coverage joins the story.
+ * @returns Cluster id of every item key (single items get their own cluster)
+ */
+export function clusterStories(
+  items: ClusterCandidate[],
+  options: Partial<ClusteringOptions> = {}
+): Map<string, string> {
+  const { threshold, minShared } = { ...DEFAULT_OPTIONS, ...options };
+
+  const shingles = items.map((item) => {
+    const set = titleShingles(item.title);
+    item.keywords?.forEach((keyword) => set.add(`#${keyword.toLowerCase()}`));
+    return set;
+  });
+
+  const parent = items.map((_, index) => index);
+  const find = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]];
+      index = parent[index];
+    }
+    return index;
+  };
+
+  for (let i = 0; i < items.length; i++) {
+    for (let j = i + 1; j < items.length; j++) {
+      const { jaccard, shared } = similarity(shingles[i], shingles[j]);
+      if (jaccard >= threshold && shared >= minShared) {
+        parent[find(j)] = find(i);
+      }
+    }
+  }
+
+  const members = new Map<number, ClusterCandidate[]>();
+  items.forEach((item, index) => {
+    const root = find(index);
+    const group = members.get(root);
+    if (group) {
+      group.push(item);
+    } else {
+      members.set(root, [item]);
+    }
+  });
+
+  const clusterIds = new Map<string, string>();
+  for (const group of members.values()) {
+    const earliest = group.reduce((first, item) =>
+      new Date(item.publishedAt).getTime() < new Date(first.publishedAt).getTime()
+        ? item
+        : first
+    );
+    const clusterId = `story-${createHash("sha1").update(earliest.key).digest("hex").slice(0, 12)}`;
+    group.forEach((item) => clusterIds.set(item.key, clusterId));
+  }
+
+  return clusterIds;
+}
+
+function toRelated(item: NewsItem): RelatedStory {
+  return {
+    source: item.source,
+    id: item.id,
+    title: item.title,
+    author: item.author,
+    url: item.url ?? item.sourceUrl ?? getDiscussionUrl(item),
+    score: item.score,
+    commentCount: item.commentCount ?? 0,
+    publishedAt: item.publishedAt,
+  };
+}
+
+/**
+ * Keeps one item per story cluster: the best ranked one leads and carries
+ * the others in `related`. Items keep the position of the first cluster member;
+ * items without a clusterId are left untouched.
+ */
+export function collapseStoryClusters(items: NewsItem[]): NewsItem[] {
+  const clusters = new Map<string, NewsItem[]>();
+  const slots: Array<NewsItem | string> = [];
+
+  for (const item of items) {
+    if (!item.clusterId) {
+      slots.push(item);
+      continue;
+    }
+
+    const cluster = clusters.get(item.clusterId);
+    if (cluster) {
+      cluster.push(item);
+    } else {
+      clusters.set(item.clusterId, [item]);
+      slots.push(item.clusterId);
+    }
+  }
+
+  return slots.map((slot) => {
+    if (typeof slot !== "string") return slot;
+
+    const cluster = clusters.get(slot)!;
+    if (cluster.length === 1) return cluster[0];
+
+    const [lead, ...others] = [...cluster].sort((a, b) => b.score - a.score);
+    return { ...lead, related: others.map(toRelated) };
+  });
+}
@@ -0,0 +1,69 @@
+import { describe, it, expect } from "vitest";
+import { Source, type DiscussionComment } from "../types";
+import { buildCommentTree, flattenCommentTree, sortCommentTree } from "./comments";
+
+const comment = (
+  id: string,
+  parentId: string | null,
+  score: number | null,
+  createdAt: string
+): DiscussionComment => ({
+  id,
+  source: Source.Lobsters,
+  parentId,
+  depth: 0,
+  author: `user-${id}`,
+  body: `comment ${id}`,
+  score,
+  createdAt,
+  permalink: `https://lobste.rs/c/${id}`,
+  children: [],
+});
+
+describe("comment tree helpers", () => {
+  const flat = [
+    comment("a", null, 3, "2025-01-01T10:00:00.000Z"),
+    comment("b", null, 10, "2025-01-01T09:00:00.000Z"),
+    comment("c", "a", 1, "2025-01-01T12:00:00.000Z"),
+    comment("d", "a", 5, "2025-01-01T11:00:00.000Z"),
+    comment("e", "missing", 0, "2025-01-01T08:00:00.000Z"),
+  ];
+
+  it("should build the tree from parent links", () => {
+    const tree = buildCommentTree(flat);
+
+    expect(tree.map((c) => c.id)).toEqual(["a", "b", "e"]);
+    expect(tree[0].children.map((c) => c.id)).toEqual(["c", "d"]);
+    expect(tree[0].children[0].depth).toBe(1);
+    expect(tree[2].depth).toBe(0);
+  });
+
+  it("should sort every level by score or date", () => {
+    const tree = buildCommentTree(flat);
+
+    const top = sortCommentTree(tree, "top");
+    expect(top.map((c) => c.id)).toEqual(["b", "a", "e"]);
+    expect(top[1].children.map((c) => c.id)).toEqual(["d", "c"]);
+
+    const newest = sortCommentTree(tree, "new");
+    expect(newest.map((c) => c.id)).toEqual(["a", "b", "e"]);
+    expect(newest[0].children.map((c) => c.id)).toEqual(["c", "d"]);
+  });
+
+  it("should keep upstream order when scores are unknown", () => {
+    const unscored = [
+      comment("x", null, null, "2025-01-01T08:00:00.000Z"),
+      comment("y", null, null, "2025-01-01T09:00:00.000Z"),
+    ];
+
+    expect(sortCommentTree(unscored, "top").map((c) => c.id)).toEqual(["x", "y"]);
+  });
+
+  it("should flatten depth-first", () => {
+    const flattened = flattenCommentTree(sortCommentTree(buildCommentTree(flat), "top"));
+
+    expect(flattened.map((c) => c.id)).toEqual(["b", "a", "d", "c", "e"]);
+    expect(flattened.every((c) => c.children.length === 0)).toBe(true);
+    expect(flattened[2]).toMatchObject({ parentId: "a", depth: 1 });
+  });
+});
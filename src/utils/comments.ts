@@ -0,0 +1,78 @@
+import type { CommentSort, DiscussionComment } from "../types";
+
+/**
+ * Builds a comment tree from a flat, parent-linked list (e.g. Lobsters).
+ * Comments whose parent is missing are kept as top-level comments.
+ * Depths are recomputed from the tree.
+ */
+export function buildCommentTree(comments: DiscussionComment[]): DiscussionComment[] {
+  const byId = new Map<string, DiscussionComment>();
+  comments.forEach((comment) => byId.set(comment.id, { ...comment, children: [] }));
+
+  const roots: DiscussionComment[] = [];
+  for (const comment of byId.values()) {
+    const parent = comment.parentId ? byId.get(comment.parentId) : undefined;
+    if (parent) {
+      parent.children.push(comment);
+    } else {
+      roots.push(comment);
+    }
+  }
+
+  const setDepth = (nodes: DiscussionComment[], depth: number) => {
+    nodes.forEach((node) => {
+      node.depth = depth;
+      setDepth(node.children, depth + 1);
+    });
+  };
+  setDepth(roots, 0);
+
+  return roots;
+}
+
+/**
+ * Sorts every level of the tree.
+ * "top": by score, keeping the upstream order for ties and for sources
+ * without comment scores (HN and Dev.to already return replies ranked).
+ * "new": newest first.
+ */
+export function sortCommentTree(
+  comments: DiscussionComment[],
+  sort: CommentSort
+): DiscussionComment[] {
+  const compare =
+    sort === "new"
+      ? (a: DiscussionComment, b: DiscussionComment) =>
+          new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+      : (a: DiscussionComment, b: DiscussionComment) =>
+          (b.score ?? 0) - (a.score ?? 0);
+
+  // Array.prototype.sort is stable, so ties keep the upstream order
+  return [...comments]
+    .sort(compare)
+    .map((comment) => ({
+      ...comment,
+      children: sortCommentTree(comment.children, sort),
+    }));
+}
+
+/**
+ * Flattens the tree in display order (depth-first); `depth` and `parentId`
+ * keep the thread structure, `children` is emptied.
+ */
+export function flattenCommentTree(comments: DiscussionComment[]): DiscussionComment[] {
+  return comments.flatMap((comment) => [
+    { ...comment, children: [] },
+    ...flattenCommentTree(comment.children),
+  ]);
+}
+
+/**
+ * Counts every comment in the tree
+ */
+export function countComments(comments: DiscussionComment[]): number {
+  return comments.reduce(
+    (total, comment) => total + 1 + countComments(comment.children),
+    0
+  );
+}
@@ -0,0 +1,43 @@
+import { describe, it, expect } from "vitest";
+import { mapWithConcurrency } from "./concurrency";
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("mapWithConcurrency", () => {
+  it("should keep the input order with out-of-order completion", async () => {
+    const results = await mapWithConcurrency([30, 10, 20, 0], 2, async (ms, index) => {
+      await delay(ms);
+      return `${index}:${ms}`;
+    });
+
+    expect(results).toEqual(["0:30", "1:10", "2:20", "3:0"]);
+  });
+
+  it("should never run more than limit calls at once", async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+
+    await mapWithConcurrency(Array.from({ length: 10 }, (_, i) => i), 3, async (i) => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await delay(i % 3);
+      inFlight--;
+    });
+
+    expect(maxInFlight).toBe(3);
+  });
+
+  it("should handle empty input and treat a limit below 1 as 1", async () => {
+    expect(await mapWithConcurrency([], 5, async (x) => x)).toEqual([]);
+    expect(await mapWithConcurrency([1, 2], 0, async (x) => x * 2)).toEqual([2, 4]);
+  });
+
+  it("should reject when a call fails", async () => {
+    await expect(
+      mapWithConcurrency([1, 2, 3], 2, async (x) => {
+        if (x === 2) throw new Error("boom");
+        return x;
+      })
+    ).rejects.toThrow("boom");
+  });
+});
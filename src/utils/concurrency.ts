@@ -0,0 +1,30 @@
+/**
+ * Maps items through an async function with at most `limit` calls in flight.
+ * Results keep the input order.
+ * @param items Items to process
+ * @param limit Maximum number of concurrent calls (>= 1)
+ * @param fn Async mapper
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let nextIndex = 0;
+
+  const worker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  const workers = Array.from(
+    { length: Math.min(Math.max(1, limit), items.length) },
+    () => worker()
+  );
+  await Promise.all(workers);
+
+  return results;
+}
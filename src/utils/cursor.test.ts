@@ -0,0 +1,19 @@
+import { describe, it, expect } from "vitest";
+import { decodeCursor, encodeCursor } from "./cursor";
+
+describe("feed cursor", () => {
+  it("should round-trip the snapshot and offset", () => {
+    const cursor = encodeCursor({ s: "a1B2-c_3", o: 20 });
+
+    expect(cursor).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(decodeCursor(cursor)).toEqual({ s: "a1B2-c_3", o: 20 });
+  });
+
+  it("should reject cursors it did not issue", () => {
+    // Legacy cursors were plain item ids
+    expect(decodeCursor("42")).toBeNull();
+    expect(decodeCursor("not a cursor!")).toBeNull();
+    expect(decodeCursor(Buffer.from('{"s":"x","o":-1}').toString("base64url"))).toBeNull();
+    expect(decodeCursor(Buffer.from('{"s":"../x","o":1}').toString("base64url"))).toBeNull();
+  });
+});
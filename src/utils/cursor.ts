@@ -0,0 +1,33 @@
+// Opaque pagination cursor: the list it points into and the offset of the next page
+export interface FeedCursor {
+  s: string; // Feed snapshot id (or search key for /api/search)
+  o: number; // Offset in the list
+}
+
+const SNAPSHOT_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+export function encodeCursor(cursor: FeedCursor): string {
+  return Buffer.from(JSON.stringify({ s: cursor.s, o: cursor.o })).toString(
+    "base64url"
+  );
+}
+
+/**
+ * @returns The cursor, or null when it was not issued by encodeCursor
+ */
+export function decodeCursor(raw: string): FeedCursor | null {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(Buffer.from(raw, "base64url").toString("utf8"));
+  } catch {
+    return null;
+  }
+
+  if (typeof parsed !== "object" || parsed === null) return null;
+
+  const { s, o } = parsed as Record<string, unknown>;
+  if (typeof s !== "string" || !SNAPSHOT_ID_PATTERN.test(s)) return null;
+  if (typeof o !== "number" || !Number.isInteger(o) || o < 0) return null;
+
+  return { s, o };
+}
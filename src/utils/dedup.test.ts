@@ -0,0 +1,99 @@
+import { describe, it, expect } from "vitest";
+import { Source, type NewsItem } from "../types";
+import { mergeDuplicateStories } from "./dedup";
+
+describe("mergeDuplicateStories", () => {
+  const hn: NewsItem = {
+    id: "42",
+    title: "Postgres 18 released",
+    author: "alice",
+    score: 120,
+    originalScore: 300,
+    commentCount: 80,
+    publishedAt: "2025-01-01T10:00:00.000Z",
+    source: Source.HackerNews,
+    url: "https://www.postgresql.org/about/news/postgres-18/?utm_source=hn",
+  };
+  const lobsters: NewsItem = {
+    id: "lobsters-abc",
+    title: "PostgreSQL 18 Released!",
+    author: "bob",
+    score: 90,
+    originalScore: 40,
+    commentCount: 12,
+    publishedAt: "2025-01-01T08:00:00.000Z",
+    source: Source.Lobsters,
+    url: "http://postgresql.org/about/news/postgres-18",
+    sourceUrl: "https://lobste.rs/s/abc",
+  };
+  const other: NewsItem = {
+    id: "43",
+    title: "Something else",
+    author: "carol",
+    score: 100,
+    publishedAt: "2025-01-01T09:00:00.000Z",
+    source: Source.HackerNews,
+    url: "https://example.com/other",
+  };
+
+  it("should merge items linking to the same story", () => {
+    const rank = (item: NewsItem) => item.score + (item.commentCount ?? 0);
+    const merged = mergeDuplicateStories([hn, other, lobsters], rank);
+
+    expect(merged.map((item) => item.id)).toEqual(["42", "43"]);
+
+    const [story] = merged;
+    expect(story.source).toBe(Source.HackerNews);
+    expect(story.commentCount).toBe(92);
+    // Combined engagement: 300 + 40 points, 92 comments
+    expect(story.score).toBe(432);
+    expect(story.discussions).toEqual([
+      {
+        source: Source.HackerNews,
+        id: "42",
+        score: 300,
+        commentCount: 80,
+        url: "https://news.ycombinator.com/item?id=42",
+      },
+      {
+        source: Source.Lobsters,
+        id: "lobsters-abc",
+        score: 40,
+        commentCount: 12,
+        url: "https://lobste.rs/s/abc",
+      },
+    ]);
+  });
+
+  it("should keep the engagement the merged score was ranked from", () => {
+    const rank = (item: NewsItem) => item.score + (item.commentCount ?? 0);
+    const [story] = mergeDuplicateStories([hn, lobsters], rank);
+
+    expect(story.rankedFrom).toEqual({
+      score: 340,
+      commentCount: 92,
+      publishedAt: lobsters.publishedAt,
+      techScore: 0,
+    });
+    expect(rank({ ...story, ...story.rankedFrom })).toBe(story.score);
+  });
+
+  it("should never rank the merged story below its lead", () => {
+    const merged = mergeDuplicateStories([hn, lobsters], () => 0);
+    expect(merged[0].score).toBe(hn.score);
+    // The lead's own engagement, not the combined comments
+    expect(merged[0].rankedFrom).toEqual({
+      score: 300,
+      commentCount: 80,
+      publishedAt: hn.publishedAt,
+      techScore: undefined,
+    });
+  });
+
+  it("should leave unique and self posts untouched", () => {
+    const selfPost: NewsItem = { ...other, id: "44", url: undefined };
+    const merged = mergeDuplicateStories([other, selfPost], () => 0);
+
+    expect(merged).toEqual([other, selfPost]);
+  });
+});
@@ -0,0 +1,95 @@
+import type { NewsItem, RankInput, StoryDiscussion } from "../types";
+import { canonicalizeUrl, getDiscussionUrl, getExternalUrl } from "./url";
+
+function toDiscussion(item: NewsItem): StoryDiscussion {
+  return {
+    source: item.source,
+    id: item.id,
+    score: item.originalScore ?? item.score,
+    commentCount: item.commentCount ?? 0,
+    url: getDiscussionUrl(item),
+  };
+}
+
+function pickRankInput(item: NewsItem): RankInput {
+  return {
+    score: item.score,
+    commentCount: item.commentCount ?? 0,
+    publishedAt: item.publishedAt,
+    techScore: item.techScore,
+  };
+}
+
+/**
+ * Merges items linking to the same (canonical) URL into one item.
+ * The best ranked duplicate leads; every duplicate is listed in `discussions`
+ * and the merged score is ranked from the combined engagement
+ * (never below the lead's own score); `rankedFrom` keeps the engagement
+ * behind the merged score.
+ * Items keep the position of the first duplicate.
+ * @param items Ranked items (`score` is the calculated rank)
+ * @param rank Ranking function applied to the combined engagement
+ */
+export function mergeDuplicateStories(
+  items: NewsItem[],
+  rank: (item: NewsItem) => number
+): NewsItem[] {
+  const groups = new Map<string, NewsItem[]>();
+  const slots: Array<NewsItem | string> = [];
+
+  for (const item of items) {
+    const externalUrl = getExternalUrl(item);
+    const key = externalUrl ? canonicalizeUrl(externalUrl) : null;
+
+    if (!key) {
+      slots.push(item);
+      continue;
+    }
+
+    const group = groups.get(key);
+    if (group) {
+      group.push(item);
+    } else {
+      groups.set(key, [item]);
+      slots.push(key);
+    }
+  }
+
+  return slots.map((slot) => {
+    if (typeof slot !== "string") return slot;
+
+    const group = groups.get(slot)!;
+    if (group.length === 1) return group[0];
+
+    const ordered = [...group].sort((a, b) => b.score - a.score);
+    const lead = ordered[0];
+    const discussions = ordered.map(toDiscussion);
+
+    const combined: NewsItem = {
+      ...lead,
+      score: discussions.reduce((sum, d) => sum + d.score, 0),
+      commentCount: discussions.reduce((sum, d) => sum + d.commentCount, 0),
+      publishedAt: group
+        .map((item) => item.publishedAt)
+        .reduce((earliest, date) =>
+          new Date(date).getTime() < new Date(earliest).getTime() ? date : earliest
+        ),
+      techScore: Math.max(...group.map((item) => item.techScore ?? 0)),
+    };
+
+    // Input behind the merged score, so explanations reproduce it
+    const combinedScore = rank(combined);
+    const rankedFrom: RankInput =
+      combinedScore > lead.score
+        ? pickRankInput(combined)
+        : pickRankInput({ ...lead, score: lead.originalScore ?? lead.score });
+
+    return {
+      ...lead,
+      score: Math.max(combinedScore, lead.score),
+      commentCount: combined.commentCount,
+      discussions,
+      rankedFrom,
+    };
+  });
+}
@@ -0,0 +1,65 @@
+import { describe, it, expect } from "vitest";
+import { Source, type DiversityConfig, type NewsItem } from "../types";
+import { diversify } from "./diversity";
+
+describe("diversify", () => {
+  const options: DiversityConfig = {
+    strength: 0.5,
+    window: 2,
+    topN: 10,
+    maxPerAuthor: 2,
+    maxPerDomain: 3,
+  };
+
+  const item = (
+    id: string,
+    keywords: string[],
+    extra: Partial<NewsItem> = {}
+  ): NewsItem => ({
+    id,
+    title: `Title ${id}`,
+    author: `author-${id}`,
+    score: 10,
+    publishedAt: "2025-01-01T10:00:00.000Z",
+    source: Source.HackerNews,
+    commentCount: 5,
+    keywords,
+    ...extra,
+  });
+
+  it("should keep the order with strength 0", () => {
+    const items = [item("a", ["llm"]), item("b", ["llm"]), item("c", ["rust"])];
+
+    expect(diversify(items, { ...options, strength: 0 })).toBe(items);
+  });
+
+  it("should break up runs of the same topic", () => {
+    const items = [
+      item("a", ["llm", "ai"]),
+      item("b", ["llm", "ai"]),
+      item("c", ["llm", "ai"]),
+      item("d", ["rust"]),
+      item("e", ["postgres"]),
+    ];
+
+    const ids = diversify(items, options).map((i) => i.id);
+
+    expect(ids[0]).toBe("a");
+    expect(ids.slice(0, 3)).toEqual(["a", "d", "e"]);
+    expect(ids).toHaveLength(5);
+  });
+
+  it("should cap authors and domains in the top N", () => {
+    const items = [
+      item("a", ["go"], { author: "alice", url: "https://github.com/a" }),
+      item("b", ["js"], { author: "alice", url: "https://github.com/b" }),
+      item("c", ["css"], { author: "alice", url: "https://example.com/c" }),
+      item("d", ["sql"], { author: "bob", url: "https://example.org/d" }),
+    ];
+
+    const ids = diversify(items, { ...options, strength: 0.01 }).map((i) => i.id);
+
+    // alice has 2 slots in the top N, so "c" only comes after bob
+    expect(ids.indexOf("d")).toBeLessThan(ids.indexOf("c"));
+  });
+});
@@ -0,0 +1,93 @@
+import type { DiversityConfig, NewsItem } from "../types";
+import { titleShingles } from "./clustering";
+import { getDomain, getExternalUrl } from "./url";
+
+interface Profile {
+  item: NewsItem;
+  relevance: number; // 1 for the first item, down to ~0 for the last
+  topics: Set<string>;
+  author: string;
+  domain: string | null;
+}
+
+function profile(item: NewsItem, index: number, total: number): Profile {
+  const external = getExternalUrl(item);
+
+  return {
+    item,
+    relevance: 1 - index / total,
+    // Items ranked before enrichment stored keywords fall back to the title
+    topics: item.keywords?.length
+      ? new Set(item.keywords.map((keyword) => keyword.toLowerCase()))
+      : titleShingles(item.title),
+    author: `${item.source}:${item.author.toLowerCase()}`,
+    domain: external ? getDomain(external) : null,
+  };
+}
+
+// 1 for the same author or linked site, topic overlap (Jaccard) otherwise
+function similarity(a: Profile, b: Profile): number {
+  if (a.author === b.author) return 1;
+  if (a.domain && a.domain === b.domain) return 1;
+
+  let shared = 0;
+  for (const topic of a.topics) {
+    if (b.topics.has(topic)) shared++;
+  }
+  const union = a.topics.size + b.topics.size - shared;
+  return union === 0 ? 0 : shared / union;
+}
+
+/**
+ * Re-ranks a feed so neighbouring items differ in topic, author and site
+ * (maximal marginal relevance against the last `window` picked items).
+ * Relevance is the position in the input, so strength 0 keeps the order.
+ * Within the first `topN` items, authors and domains are capped
+ * (unless only capped items are left).
+ */
+export function diversify(items: NewsItem[], options: DiversityConfig): NewsItem[] {
+  if (items.length < 2 || options.strength === 0) return items;
+
+  const remaining = items.map((item, index) => profile(item, index, items.length));
+  const picked: Profile[] = [];
+  const authorCount = new Map<string, number>();
+  const domainCount = new Map<string, number>();
+
+  const isCapped = (candidate: Profile) =>
+    picked.length < options.topN &&
+    ((authorCount.get(candidate.author) ?? 0) >= options.maxPerAuthor ||
+      (candidate.domain !== null &&
+        (domainCount.get(candidate.domain) ?? 0) >= options.maxPerDomain));
+
+  while (remaining.length > 0) {
+    const recent = picked.slice(-options.window);
+    const allowed = remaining.filter((candidate) => !isCapped(candidate));
+    const pool = allowed.length > 0 ? allowed : remaining;
+
+    let best = pool[0];
+    let bestScore = -Infinity;
+    for (const candidate of pool) {
+      const redundancy = Math.max(
+        0,
+        ...recent.map((previous) => similarity(candidate, previous))
+      );
+      const score =
+        (1 - options.strength) * candidate.relevance -
+        options.strength * redundancy;
+
+      if (score > bestScore) {
+        best = candidate;
+        bestScore = score;
+      }
+    }
+
+    remaining.splice(remaining.indexOf(best), 1);
+    picked.push(best);
+    authorCount.set(best.author, (authorCount.get(best.author) ?? 0) + 1);
+    if (best.domain) {
+      domainCount.set(best.domain, (domainCount.get(best.domain) ?? 0) + 1);
+    }
+  }
+
+  return picked.map((entry) => entry.item);
+}
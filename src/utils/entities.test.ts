@@ -0,0 +1,16 @@
+import { describe, it, expect } from "vitest";
+import { decodeEntities } from "./entities";
+
+describe("decodeEntities", () => {
+  it("should decode numeric and named entities", () => {
+    expect(decodeEntities("&#x27;a&#39; &lt;b&gt; &quot;c&quot; &amp;amp;")).toBe(
+      "'a' <b> \"c\" &amp;"
+    );
+  });
+
+  it("should keep out-of-range numeric entities as written", () => {
+    expect(decodeEntities("a &#99999999; b &#x110000; c &#x10FFFF;")).toBe(
+      "a &#99999999; b &#x110000; c \u{10ffff}"
+    );
+  });
+});
@@ -0,0 +1,23 @@
+// Highest Unicode code point (String.fromCodePoint throws above it)
+const MAX_CODE_POINT = 0x10ffff;
+
+function fromCodePoint(entity: string, codePoint: number): string {
+  return codePoint <= MAX_CODE_POINT ? String.fromCodePoint(codePoint) : entity;
+}
+
+/**
+ * Decodes numeric entities, &nbsp; (as a plain space) and the XML named
+ * entities (&amp; last, so "&amp;lt;" stays "&lt;").
+ * Out-of-range numeric entities are kept as written.
+ */
+export function decodeEntities(text: string): string {
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (entity, hex) => fromCodePoint(entity, parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (entity, dec) => fromCodePoint(entity, parseInt(dec, 10)))
+    .replace(/&nbsp;/g, " ")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&amp;/g, "&");
+}
@@ -0,0 +1,38 @@
+import { describe, it, expect } from "vitest";
+import type { Experiment } from "../types";
+import { assignVariant } from "./experiments";
+
+describe("assignVariant", () => {
+  const experiment: Experiment = {
+    id: "gravity-2025-12",
+    variants: [
+      { id: "control", traffic: 0.5, weights: {} },
+      { id: "gravity-1.8", traffic: 0.5, weights: { gravity: 1.8 } },
+    ],
+  };
+
+  it("should keep a client in the same variant", () => {
+    const first = assignVariant(experiment, "client-42");
+
+    expect(assignVariant(experiment, "client-42")).toEqual(first);
+  });
+
+  it("should split clients by traffic share", () => {
+    const counts = { control: 0, "gravity-1.8": 0 } as Record<string, number>;
+    for (let i = 0; i < 2000; i++) {
+      counts[assignVariant(experiment, `client-${i}`).variant]++;
+    }
+
+    expect(counts.control).toBeGreaterThan(900);
+    expect(counts["gravity-1.8"]).toBeGreaterThan(900);
+  });
+
+  it("should carry the variant weights", () => {
+    const assignments = Array.from({ length: 20 }, (_, i) =>
+      assignVariant(experiment, `client-${i}`)
+    );
+    const treated = assignments.find((a) => a.variant === "gravity-1.8");
+
+    expect(treated?.weights).toEqual({ gravity: 1.8 });
+  });
+});
@@ -0,0 +1,38 @@
+import { createHash } from "crypto";
+import type { Experiment, ExperimentAssignment } from "../types";
+
+/**
+ * Position of a client in an experiment, in [0, 1).
+ * Hashing the experiment id with the client id keeps the assignment stable
+ * for the client, yet independent between experiments.
+ */
+export function clientBucket(experimentId: string, clientId: string): number {
+  const hash = createHash("sha1")
+    .update(`${experimentId}:${clientId}`)
+    .digest();
+  return hash.readUInt32BE(0) / 0x100000000;
+}
+
+/**
+ * Variant of a client: the one whose traffic range contains its bucket
+ */
+export function assignVariant(
+  experiment: Experiment,
+  clientId: string
+): ExperimentAssignment {
+  const bucket = clientBucket(experiment.id, clientId);
+
+  let cumulative = 0;
+  const variant =
+    experiment.variants.find((candidate) => {
+      cumulative += candidate.traffic;
+      return bucket < cumulative;
+    }) ?? experiment.variants[experiment.variants.length - 1];
+
+  return {
+    experimentId: experiment.id,
+    variant: variant.id,
+    clientId,
+    weights: variant.weights,
+  };
+}
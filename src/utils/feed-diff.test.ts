@@ -0,0 +1,51 @@
+import { describe, it, expect } from "vitest";
+import { Source, type NewsItem } from "../types";
+import { diffTopItems, sourceStatusesChanged } from "./feed-diff";
+
+const item = (id: string): NewsItem => ({
+  id,
+  title: `Story ${id}`,
+  author: "alice",
+  score: 10,
+  publishedAt: "2025-12-15T10:00:00.000Z",
+  source: Source.HackerNews,
+});
+
+describe("diffTopItems", () => {
+  it("should report new items, moves and items that left the top", () => {
+    const { entered, changes } = diffTopItems(
+      [item("a"), item("b"), item("c")],
+      [item("b"), item("d"), item("a")]
+    );
+
+    expect(entered).toEqual([{ position: 2, item: item("d") }]);
+    expect(changes).toEqual([
+      { source: Source.HackerNews, id: "b", from: 2, to: 1 },
+      { source: Source.HackerNews, id: "a", from: 1, to: 3 },
+      { source: Source.HackerNews, id: "c", from: 3, to: null },
+    ]);
+  });
+
+  it("should report nothing for the same top", () => {
+    const top = [item("a"), item("b")];
+
+    expect(diffTopItems(top, [...top])).toEqual({ entered: [], changes: [] });
+  });
+});
+
+describe("sourceStatusesChanged", () => {
+  const ok = [
+    { name: Source.HackerNews, ok: true },
+    { name: Source.TabNews, ok: true },
+  ];
+
+  it("should detect a source going down", () => {
+    expect(sourceStatusesChanged(ok, [...ok])).toBe(false);
+    expect(
+      sourceStatusesChanged(ok, [
+        ok[0],
+        { name: Source.TabNews, ok: false, error: "timeout" },
+      ])
+    ).toBe(true);
+  });
+});
@@ -0,0 +1,57 @@
+import type {
+  FeedStreamNewItem,
+  FeedStreamRankChange,
+  NewsItem,
+  SourceStatus,
+} from "../types";
+
+const itemKey = (item: NewsItem) => `${item.source}:${item.id}`;
+
+/**
+ * Changes between two versions of the top of the feed
+ * @returns Items that entered the top, and items that moved or left it
+ */
+export function diffTopItems(
+  previous: NewsItem[],
+  current: NewsItem[]
+): { entered: FeedStreamNewItem[]; changes: FeedStreamRankChange[] } {
+  const previousPositions = new Map(
+    previous.map((item, index) => [itemKey(item), index + 1])
+  );
+  const currentKeys = new Set(current.map(itemKey));
+
+  const entered: FeedStreamNewItem[] = [];
+  const changes: FeedStreamRankChange[] = [];
+
+  current.forEach((item, index) => {
+    const from = previousPositions.get(itemKey(item));
+    if (from === undefined) {
+      entered.push({ position: index + 1, item });
+    } else if (from !== index + 1) {
+      changes.push({ source: item.source, id: item.id, from, to: index + 1 });
+    }
+  });
+
+  previous.forEach((item, index) => {
+    if (!currentKeys.has(itemKey(item))) {
+      changes.push({ source: item.source, id: item.id, from: index + 1, to: null });
+    }
+  });
+
+  return { entered, changes };
+}
+
+/**
+ * Whether any source went up or down (or failed with another error)
+ */
+export function sourceStatusesChanged(
+  previous: SourceStatus[],
+  current: SourceStatus[]
+): boolean {
+  if (previous.length !== current.length) return true;
+
+  return current.some((status) => {
+    const before = previous.find((entry) => entry.name === status.name);
+    return !before || before.ok !== status.ok || before.error !== status.error;
+  });
+}
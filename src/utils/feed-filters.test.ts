@@ -0,0 +1,97 @@
+import { describe, it, expect } from "vitest";
+import { Source, type NewsItem } from "../types";
+import {
+  feedFiltersKey,
+  matchesFeedFilters,
+  parseFeedFilters,
+} from "./feed-filters";
+
+const sourcesBySlug: Record<string, Source> = {
+  hackernews: Source.HackerNews,
+  tabnews: Source.TabNews,
+  devto: Source.DevTo,
+};
+
+describe("parseFeedFilters", () => {
+  it("should parse every filter", () => {
+    const { filters, errors } = parseFeedFilters(
+      {
+        sources: "hackernews, TabNews",
+        keywords: "Rust,ai",
+        min_tech_score: "70",
+        since: "2025-12-01",
+        min_comments: "5",
+        has_url: "true",
+      },
+      sourcesBySlug
+    );
+
+    expect(errors).toEqual([]);
+    expect(filters).toEqual({
+      sources: [Source.HackerNews, Source.TabNews],
+      keywords: ["rust", "ai"],
+      minTechScore: 70,
+      since: "2025-12-01T00:00:00.000Z",
+      minComments: 5,
+      hasUrl: true,
+    });
+  });
+
+  it("should report every invalid filter", () => {
+    const { filters, errors } = parseFeedFilters(
+      {
+        exclude_sources: "myspace",
+        min_tech_score: "120",
+        since: "2025-12-10",
+        until: "2025-12-01",
+        min_comments: "-1",
+        has_url: "yes",
+      },
+      sourcesBySlug
+    );
+
+    expect(filters).toBeNull();
+    expect(errors).toHaveLength(5);
+    expect(errors[0]).toContain("unknown source myspace");
+    expect(errors).toContain("since must be before until");
+  });
+});
+
+describe("feedFiltersKey", () => {
+  it("should not depend on the order of the lists", () => {
+    expect(
+      feedFiltersKey({ sources: [Source.TabNews, Source.HackerNews], minComments: 2 })
+    ).toBe(feedFiltersKey({ minComments: 2, sources: [Source.HackerNews, Source.TabNews] }));
+    expect(feedFiltersKey({})).toBe("");
+  });
+});
+
+describe("matchesFeedFilters", () => {
+  const item: NewsItem = {
+    id: "1",
+    title: "Rewriting our API in Rust",
+    author: "alice",
+    url: "https://example.com/rust",
+    score: 10,
+    publishedAt: "2025-12-05T10:00:00.000Z",
+    source: Source.HackerNews,
+    commentCount: 3,
+    techScore: 80,
+    keywords: ["api"],
+  };
+
+  it("should match keywords in the title or the enrichment keywords", () => {
+    expect(matchesFeedFilters(item, { keywords: ["rust"] })).toBe(true);
+    expect(matchesFeedFilters(item, { keywords: ["api", "go"] })).toBe(true);
+    expect(matchesFeedFilters(item, { keywords: ["python"] })).toBe(false);
+  });
+
+  it("should apply sources, dates, comments and links", () => {
+    expect(matchesFeedFilters(item, { excludeSources: [Source.HackerNews] })).toBe(false);
+    expect(matchesFeedFilters(item, { since: "2025-12-06T00:00:00.000Z" })).toBe(false);
+    expect(matchesFeedFilters(item, { until: "2025-12-06T00:00:00.000Z" })).toBe(true);
+    expect(matchesFeedFilters(item, { minComments: 5 })).toBe(false);
+    expect(matchesFeedFilters(item, { hasUrl: false })).toBe(false);
+    expect(matchesFeedFilters(item, { minTechScore: 80, hasUrl: true })).toBe(true);
+  });
+});
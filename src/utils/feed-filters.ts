@@ -0,0 +1,226 @@
+import { getExternalUrl } from "./url";
+import type { FeedFilters, NewsItem, Source } from "../types";
+
+const MAX_KEYWORDS = 10;
+const MAX_KEYWORD_LENGTH = 50;
+
+// Query param of each filter, in the order used by feedFiltersKey
+const FILTER_PARAMS: Record<keyof FeedFilters, string> = {
+  sources: "sources",
+  excludeSources: "exclude_sources",
+  keywords: "keywords",
+  minTechScore: "min_tech_score",
+  since: "since",
+  until: "until",
+  minComments: "min_comments",
+  hasUrl: "has_url",
+};
+
+function splitList(value: string): string[] {
+  return value
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0);
+}
+
+/**
+ * Comma-separated source slugs (shared with the search params)
+ */
+export function parseSourcesParam(
+  param: string,
+  value: string,
+  sourcesBySlug: Record<string, Source>,
+  errors: string[]
+): Source[] | undefined {
+  const slugs = splitList(value.toLowerCase());
+  if (slugs.length === 0) {
+    errors.push(`${param} must list at least one source`);
+    return undefined;
+  }
+
+  const unknown = slugs.filter((slug) => !sourcesBySlug[slug]);
+  if (unknown.length > 0) {
+    errors.push(
+      `${param}: unknown source ${unknown.join(", ")} (use one of: ${Object.keys(sourcesBySlug).join(", ")})`
+    );
+    return undefined;
+  }
+
+  return [...new Set(slugs.map((slug) => sourcesBySlug[slug]))];
+}
+
+/**
+ * ISO 8601 date param (shared with the search params)
+ */
+export function parseDateParam(
+  param: string,
+  value: string,
+  errors: string[]
+): string | undefined {
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) {
+    errors.push(`${param} must be an ISO 8601 date (e.g. 2025-12-15 or 2025-12-15T10:00:00Z)`);
+    return undefined;
+  }
+
+  return new Date(time).toISOString();
+}
+
+/**
+ * Validates the /api/feed filter query params (sources are given by slug)
+ * @returns The filters (empty when none was given), or null with every validation error
+ */
+export function parseFeedFilters(
+  query: Record<string, string | undefined>,
+  sourcesBySlug: Record<string, Source>
+): { filters: FeedFilters | null; errors: string[] } {
+  const errors: string[] = [];
+  const filters: FeedFilters = {};
+
+  const {
+    sources,
+    exclude_sources: excludeSources,
+    keywords,
+    min_tech_score: minTechScore,
+    since,
+    until,
+    min_comments: minComments,
+    has_url: hasUrl,
+  } = query;
+
+  if (sources !== undefined) {
+    filters.sources = parseSourcesParam("sources", sources, sourcesBySlug, errors);
+  }
+  if (excludeSources !== undefined) {
+    filters.excludeSources = parseSourcesParam(
+      "exclude_sources",
+      excludeSources,
+      sourcesBySlug,
+      errors
+    );
+  }
+
+  if (keywords !== undefined) {
+    const list = [...new Set(splitList(keywords.toLowerCase()))];
+    if (list.length === 0 || list.length > MAX_KEYWORDS) {
+      errors.push(`keywords must list 1 to ${MAX_KEYWORDS} keywords`);
+    } else if (list.some((keyword) => keyword.length > MAX_KEYWORD_LENGTH)) {
+      errors.push(`keywords must be at most ${MAX_KEYWORD_LENGTH} characters long`);
+    } else {
+      filters.keywords = list;
+    }
+  }
+
+  if (minTechScore !== undefined) {
+    const value = Number(minTechScore);
+    if (minTechScore.trim() === "" || !(value >= 0 && value <= 100)) {
+      errors.push("min_tech_score must be a number between 0 and 100");
+    } else {
+      filters.minTechScore = value;
+    }
+  }
+
+  if (since !== undefined) filters.since = parseDateParam("since", since, errors);
+  if (until !== undefined) filters.until = parseDateParam("until", until, errors);
+  if (filters.since && filters.until && filters.since > filters.until) {
+    errors.push("since must be before until");
+  }
+
+  if (minComments !== undefined) {
+    const value = Number(minComments);
+    if (minComments.trim() === "" || !Number.isInteger(value) || value < 0) {
+      errors.push("min_comments must be a non-negative integer");
+    } else {
+      filters.minComments = value;
+    }
+  }
+
+  if (hasUrl !== undefined) {
+    if (hasUrl === "true" || hasUrl === "false") {
+      filters.hasUrl = hasUrl === "true";
+    } else {
+      errors.push("has_url must be true or false");
+    }
+  }
+
+  if (errors.length > 0) {
+    return { filters: null, errors };
+  }
+
+  return { filters, errors };
+}
+
+/**
+ * Canonical form of the filters, for cache keys ("" when there is none)
+ */
+export function feedFiltersKey(filters: FeedFilters): string {
+  const params = new URLSearchParams();
+
+  for (const [key, param] of Object.entries(FILTER_PARAMS) as Array<
+    [keyof FeedFilters, string]
+  >) {
+    const value = filters[key];
+    if (value === undefined) continue;
+
+    params.set(
+      param,
+      Array.isArray(value) ? [...value].sort().join(",") : String(value)
+    );
+  }
+
+  return params.toString();
+}
+
+/**
+ * Whether an item passes every filter. Keywords match the enrichment
+ * keywords or the title; sources match the item's own (lead) source.
+ */
+export function matchesFeedFilters(
+  item: NewsItem,
+  filters: FeedFilters
+): boolean {
+  if (filters.sources && !filters.sources.includes(item.source)) return false;
+  if (filters.excludeSources?.includes(item.source)) return false;
+
+  if (filters.keywords) {
+    const title = item.title.toLowerCase();
+    const itemKeywords = (item.keywords ?? []).map((keyword) =>
+      keyword.toLowerCase()
+    );
+    const matches = filters.keywords.some(
+      (keyword) => itemKeywords.includes(keyword) || title.includes(keyword)
+    );
+    if (!matches) return false;
+  }
+
+  if (
+    filters.minTechScore !== undefined &&
+    (item.techScore ?? 0) < filters.minTechScore
+  ) {
+    return false;
+  }
+
+  const publishedAt = new Date(item.publishedAt).getTime();
+  if (filters.since && publishedAt < new Date(filters.since).getTime()) {
+    return false;
+  }
+  if (filters.until && publishedAt > new Date(filters.until).getTime()) {
+    return false;
+  }
+
+  if (
+    filters.minComments !== undefined &&
+    (item.commentCount ?? 0) < filters.minComments
+  ) {
+    return false;
+  }
+
+  if (
+    filters.hasUrl !== undefined &&
+    (getExternalUrl(item) !== null) !== filters.hasUrl
+  ) {
+    return false;
+  }
+
+  return true;
+}
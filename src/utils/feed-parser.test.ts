@@ -0,0 +1,88 @@
+import { describe, it, expect } from "vitest";
+import { readFileSync } from "fs";
+import { parseFeed } from "./feed-parser";
+
+const readFixture = (name: string) =>
+  readFileSync(new URL(`./fixtures/${name}`, import.meta.url), "utf-8");
+
+describe("parseFeed", () => {
+  it("should parse RSS 2.0 items", () => {
+    const feed = parseFeed(readFixture("rss.xml"));
+
+    expect(feed.format).toBe("rss");
+    expect(feed.title).toBe("Example Engineering Blog");
+    expect(feed.link).toBe("https://blog.example.com/");
+    expect(feed.entries).toHaveLength(2);
+
+    const [first, second] = feed.entries;
+    expect(first).toEqual({
+      id: "example-post-42",
+      title: "Scaling Postgres vacuum at Example",
+      link: "https://blog.example.com/postgres-vacuum",
+      author: "Jane Doe",
+      publishedAt: "2025-01-06T10:30:00.000Z",
+      summary: "<p>How we tuned <b>autovacuum</b> &amp; saved disk.</p>",
+    });
+
+    expect(second.title).toBe("Rust & WebAssembly in production");
+    expect(second.id).toBe("https://blog.example.com/rust-wasm");
+    expect(second.author).toBe("john@example.com (John Roe)");
+    expect(second.publishedAt).toBeUndefined();
+  });
+
+  it("should parse Atom entries using the alternate link", () => {
+    const feed = parseFeed(readFixture("atom.xml"));
+
+    expect(feed.format).toBe("atom");
+    expect(feed.title).toBe("Julia's Notes");
+    expect(feed.link).toBe("https://notes.example.org/");
+    expect(feed.entries).toHaveLength(2);
+
+    const [first, second] = feed.entries;
+    expect(first.link).toBe("https://notes.example.org/dns-dig/");
+    expect(first.author).toBe("Julia"); // inherited from the feed
+    expect(first.publishedAt).toBe("2025-01-05T09:00:00.000Z");
+    expect(first.summary).toBe("A few <code>dig</code> tricks.");
+
+    expect(second.link).toBe("https://notes.example.org/tcp-slow-start/");
+    expect(second.author).toBe("Guest Author");
+    expect(second.publishedAt).toBe("2025-01-03T08:00:00.000Z"); // falls back to <updated>
+    expect(second.summary).toBe("<p>Why the first RTTs matter.</p>");
+  });
+
+  it("should parse JSON Feed items and skip untitled ones", () => {
+    const feed = parseFeed(readFixture("feed.json"));
+
+    expect(feed.format).toBe("json");
+    expect(feed.title).toBe("Micro Tech Log");
+    expect(feed.entries).toHaveLength(2);
+
+    const [first, second] = feed.entries;
+    expect(first).toEqual({
+      id: "1001",
+      title: "Bun 2.0 released",
+      link: "https://log.example.net/bun-2",
+      author: "Sam",
+      publishedAt: "2025-01-04T18:00:00.000Z",
+      summary: "Highlights of the new release.",
+    });
+    expect(second.link).toBe("https://github.com/example/tool");
+    expect(second.author).toBe("Alex");
+  });
+
+  it("should reject documents that are not feeds", () => {
+    expect(() => parseFeed("<html><body>nope</body></html>")).toThrow(
+      "Unrecognized feed format"
+    );
+    expect(() => parseFeed('{"items": []}')).toThrow("Unrecognized feed format");
+  });
+
+  it("should keep a feed with an out-of-range numeric entity", () => {
+    const feed = parseFeed(
+      '<rss version="2.0"><channel><title>Blog</title><item><title>Emoji &#x110000; soup</title><link>https://example.com/a</link></item></channel></rss>'
+    );
+
+    expect(feed.entries).toHaveLength(1);
+    expect(feed.entries[0].title).toBe("Emoji &#x110000; soup");
+  });
+});
@@ -0,0 +1,244 @@
+import { decodeEntities } from "./entities";
+
+export interface ParsedFeedEntry {
+  id: string;
+  title: string;
+  link?: string;
+  author?: string;
+  publishedAt?: string; // ISO String
+  summary?: string; // Raw summary/content (may contain HTML)
+}
+
+export interface ParsedFeed {
+  format: "rss" | "atom" | "json";
+  title?: string;
+  link?: string;
+  entries: ParsedFeedEntry[];
+}
+
+interface JsonFeedAuthor {
+  name?: string;
+}
+
+interface JsonFeedItem {
+  id?: string | number;
+  url?: string;
+  external_url?: string;
+  title?: string;
+  summary?: string;
+  content_text?: string;
+  content_html?: string;
+  date_published?: string;
+  date_modified?: string;
+  author?: JsonFeedAuthor;
+  authors?: JsonFeedAuthor[];
+}
+
+interface JsonFeedDocument {
+  version?: string;
+  title?: string;
+  home_page_url?: string;
+  author?: JsonFeedAuthor;
+  authors?: JsonFeedAuthor[];
+  items?: JsonFeedItem[];
+}
+
+/**
+ * Parses an RSS 2.0, Atom or JSON Feed document.
+ * XML is read with lightweight regexes (same approach as LinkScraperService),
+ * which is enough for the well-formed feeds published by blogs.
+ * @throws Error when the document is not a recognizable feed
+ */
+export function parseFeed(content: string): ParsedFeed {
+  const trimmed = content.trim();
+
+  if (trimmed.startsWith("{")) {
+    return parseJsonFeed(trimmed);
+  }
+
+  if (/<rss[\s>]/i.test(trimmed) || /<rdf:RDF[\s>]/i.test(trimmed)) {
+    return parseRss(trimmed);
+  }
+
+  if (/<feed[\s>]/i.test(trimmed)) {
+    return parseAtom(trimmed);
+  }
+
+  throw new Error("Unrecognized feed format");
+}
+
+function parseRss(xml: string): ParsedFeed {
+  const channel = getElement(xml, "channel") ?? xml;
+  // Items live inside <channel> for RSS 2.0 and beside it for RSS 1.0 (RDF)
+  const items = getElements(xml, "item");
+  const channelHeader = channel.split(/<item[\s>]/i)[0];
+
+  const entries = items
+    .map((item): ParsedFeedEntry | null => {
+      const title = getText(item, "title");
+      const link = getText(item, "link");
+      const guid = getText(item, "guid");
+      const id = guid || link;
+
+      if (!title || !id) {
+        return null;
+      }
+
+      return {
+        id,
+        title,
+        link: link || (guid && isHttpUrl(guid) ? guid : undefined),
+        author: getText(item, "dc:creator") || getText(item, "author"),
+        publishedAt: toIsoDate(getText(item, "pubDate") || getText(item, "dc:date")),
+        summary: getText(item, "description") || getText(item, "content:encoded"),
+      };
+    })
+    .filter((entry): entry is ParsedFeedEntry => entry !== null);
+
+  return {
+    format: "rss",
+    title: getText(channelHeader, "title"),
+    link: getText(channelHeader, "link"),
+    entries,
+  };
+}
+
+function parseAtom(xml: string): ParsedFeed {
+  const header = xml.split(/<entry[\s>]/i)[0];
+  const feedAuthor = getText(getElement(header, "author") ?? "", "name");
+
+  const entries = getElements(xml, "entry")
+    .map((entry): ParsedFeedEntry | null => {
+      const title = getText(entry, "title");
+      const link = getAtomLink(entry);
+      const id = getText(entry, "id") || link;
+
+      if (!title || !id) {
+        return null;
+      }
+
+      return {
+        id,
+        title,
+        link,
+        author: getText(getElement(entry, "author") ?? "", "name") || feedAuthor,
+        publishedAt: toIsoDate(getText(entry, "published") || getText(entry, "updated")),
+        summary: getText(entry, "summary") || getText(entry, "content"),
+      };
+    })
+    .filter((entry): entry is ParsedFeedEntry => entry !== null);
+
+  return {
+    format: "atom",
+    title: getText(header, "title"),
+    link: getAtomLink(header),
+    entries,
+  };
+}
+
+function parseJsonFeed(json: string): ParsedFeed {
+  let doc: JsonFeedDocument;
+  try {
+    doc = JSON.parse(json) as JsonFeedDocument;
+  } catch {
+    throw new Error("Invalid JSON Feed document");
+  }
+
+  if (!doc.version?.includes("jsonfeed.org") || !Array.isArray(doc.items)) {
+    throw new Error("Unrecognized feed format");
+  }
+
+  const feedAuthor = doc.authors?.[0]?.name || doc.author?.name;
+
+  const entries = doc.items
+    .map((item): ParsedFeedEntry | null => {
+      const link = item.url || item.external_url;
+      const id = item.id !== undefined ? String(item.id) : link;
+
+      if (!item.title || !id) {
+        return null;
+      }
+
+      return {
+        id,
+        title: item.title.trim(),
+        link,
+        author: item.authors?.[0]?.name || item.author?.name || feedAuthor,
+        publishedAt: toIsoDate(item.date_published || item.date_modified),
+        summary: item.summary || item.content_text || item.content_html,
+      };
+    })
+    .filter((entry): entry is ParsedFeedEntry => entry !== null);
+
+  return {
+    format: "json",
+    title: doc.title,
+    link: doc.home_page_url,
+    entries,
+  };
+}
+
+/**
+ * Atom links: prefer rel="alternate" (or no rel), ignore self/edit/enclosure links
+ */
+function getAtomLink(xml: string): string | undefined {
+  const linkTags = xml.match(/<link\b[^>]*>/gi) ?? [];
+
+  for (const tag of linkTags) {
+    const rel = getAttribute(tag, "rel");
+    const href = getAttribute(tag, "href");
+    if (href && (!rel || rel === "alternate")) {
+      return decodeEntities(href);
+    }
+  }
+
+  return undefined;
+}
+
+function getElements(xml: string, tag: string): string[] {
+  const pattern = new RegExp(
+    `<${escapeTag(tag)}(?:\\s[^>]*)?>([\\s\\S]*?)</${escapeTag(tag)}>`,
+    "gi",
+  );
+  return [...xml.matchAll(pattern)].map((match) => match[1]);
+}
+
+function getElement(xml: string, tag: string): string | null {
+  return getElements(xml, tag)[0] ?? null;
+}
+
+function getText(xml: string, tag: string): string | undefined {
+  const element = getElement(xml, tag);
+  if (element === null) {
+    return undefined;
+  }
+
+  const text = decodeEntities(stripCdata(element)).trim();
+  return text || undefined;
+}
+
+function getAttribute(tag: string, name: string): string | undefined {
+  const match = tag.match(new RegExp(`\\s${name}\\s*=\\s*["']([^"']*)["']`, "i"));
+  return match ? match[1] : undefined;
+}
+
+function stripCdata(text: string): string {
+  return text.replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, "$1");
+}
+
+function escapeTag(tag: string): string {
+  return tag.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function toIsoDate(value?: string): string | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+function isHttpUrl(value: string): boolean {
+  return /^https?:\/\//i.test(value);
+}
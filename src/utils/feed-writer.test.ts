@@ -0,0 +1,95 @@
+import { describe, it, expect } from "vitest";
+import { Source, type NewsItem } from "../types";
+import { parseFeed } from "./feed-parser";
+import {
+  renderAtom,
+  renderJsonFeed,
+  renderRss,
+  type SyndicationMeta,
+} from "./feed-writer";
+
+const meta: SyndicationMeta = {
+  title: "TechNews",
+  description: "Curated tech news",
+  homeUrl: "https://news.example.com",
+  feedUrl: "https://api.example.com/api/feed.rss?sources=hackernews&limit=2",
+  nextUrl: "https://api.example.com/api/feed.rss?after=abc",
+};
+
+const items: NewsItem[] = [
+  {
+    id: "42",
+    title: "Rust & <WebAssembly> in production",
+    author: "alice",
+    score: 120,
+    publishedAt: "2025-12-15T10:00:00.000Z",
+    source: Source.HackerNews,
+    url: "https://blog.example.com/rust-wasm?a=1&b=2",
+    keywords: ["rust", "wasm"],
+  },
+  {
+    id: "abc-123",
+    title: "Como otimizei meu PostgreSQL",
+    author: "bob",
+    score: 30,
+    publishedAt: "2025-12-14T08:30:00.000Z",
+    source: Source.TabNews,
+    owner_username: "bob",
+    slug: "como-otimizei-meu-postgresql",
+    body: "## Contexto\n\nO **autovacuum** estava lento.",
+  },
+];
+
+describe.each([
+  ["rss", renderRss],
+  ["atom", renderAtom],
+  ["json", renderJsonFeed],
+] as const)("%s writer", (format, render) => {
+  it("should round-trip through the feed parser", () => {
+    const feed = parseFeed(render(items, meta));
+
+    expect(feed.format).toBe(format);
+    expect(feed.title).toBe("TechNews");
+    expect(feed.link).toBe("https://news.example.com");
+    expect(feed.entries).toHaveLength(2);
+
+    const [link, selfPost] = feed.entries;
+    expect(link).toMatchObject({
+      id: "tag:news.example.com,2025:HackerNews/42",
+      title: "Rust & <WebAssembly> in production",
+      link: "https://blog.example.com/rust-wasm?a=1&b=2",
+      author: "alice",
+      publishedAt: "2025-12-15T10:00:00.000Z",
+    });
+
+    // Self posts link to their TabNews permalink
+    expect(selfPost.link).toBe(
+      "https://www.tabnews.com.br/bob/como-otimizei-meu-postgresql"
+    );
+    expect(selfPost.publishedAt).toBe("2025-12-14T08:30:00.000Z");
+    expect(selfPost.summary).toBe("Contexto O autovacuum estava lento.");
+  });
+});
+
+describe("renderRss", () => {
+  it("should write categories, the discussion page and paging links", () => {
+    const xml = renderRss(items, meta);
+
+    expect(xml).toContain("<category>rust</category>");
+    expect(xml).toContain(
+      "<comments>https://news.ycombinator.com/item?id=42</comments>"
+    );
+    expect(xml).toContain('rel="next"');
+    expect(xml).toContain("<lastBuildDate>Mon, 15 Dec 2025 10:00:00 GMT</lastBuildDate>");
+  });
+});
+
+describe("renderJsonFeed", () => {
+  it("should write tags and omit the next page when there is none", () => {
+    const feed = JSON.parse(renderJsonFeed(items, { ...meta, nextUrl: null }));
+
+    expect(feed.next_url).toBeUndefined();
+    expect(feed.items[0].tags).toEqual(["rust", "wasm"]);
+    expect(feed.items[1].tags).toBeUndefined();
+  });
+});
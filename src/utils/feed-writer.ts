@@ -0,0 +1,221 @@
+import { plainText } from "./search";
+import { getDiscussionUrl, getExternalUrl } from "./url";
+import type { NewsItem } from "../types";
+
+export type SyndicationFormat = "rss" | "atom" | "json";
+
+export const SYNDICATION_FORMATS: SyndicationFormat[] = ["rss", "atom", "json"];
+
+export const SYNDICATION_CONTENT_TYPES: Record<SyndicationFormat, string> = {
+  rss: "application/rss+xml; charset=utf-8",
+  atom: "application/atom+xml; charset=utf-8",
+  json: "application/feed+json; charset=utf-8",
+};
+
+export interface SyndicationMeta {
+  title: string;
+  description: string;
+  homeUrl: string; // Site the feed belongs to
+  feedUrl: string; // URL of the feed document itself
+  nextUrl?: string | null; // Next page of the feed
+}
+
+const SUMMARY_LENGTH = 300;
+
+interface Entry {
+  id: string;
+  title: string;
+  link: string | null;
+  comments: string | null; // Discussion page, when it differs from the link
+  author: string;
+  publishedAt: string;
+  categories: string[];
+  summary: string | null;
+}
+
+// Characters that are not allowed anywhere in an XML 1.0 document
+const INVALID_XML_CHARS = /[\u0000-\u0008\u000b\u000c\u000e-\u001f\ufffe\uffff]/g;
+
+function escapeXml(text: string): string {
+  return text
+    .replace(INVALID_XML_CHARS, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+/**
+ * Item link: the external URL (url/sourceUrl), or the discussion page
+ * for self posts (TabNews permalink, HN item, ...)
+ */
+function toEntry(item: NewsItem, authority: string): Entry {
+  const link = getExternalUrl(item) ?? getDiscussionUrl(item);
+  const discussion = getDiscussionUrl(item);
+
+  let summary: string | null = null;
+  if (item.body) {
+    const text = plainText(item.body);
+    summary =
+      text.length > SUMMARY_LENGTH
+        ? `${text.slice(0, SUMMARY_LENGTH).trimEnd()}…`
+        : text || null;
+  }
+
+  return {
+    // tag: URI (RFC 4151), stable across formats and pages
+    id: `tag:${authority},2025:${item.source}/${encodeURIComponent(item.id)}`,
+    title: item.title,
+    link,
+    comments: discussion && discussion !== link ? discussion : null,
+    author: item.author,
+    publishedAt: new Date(item.publishedAt).toISOString(),
+    categories: item.keywords ?? [],
+    summary,
+  };
+}
+
+function toEntries(items: NewsItem[], meta: SyndicationMeta): Entry[] {
+  const authority = new URL(meta.homeUrl).hostname;
+  return items.map((item) => toEntry(item, authority));
+}
+
+// Newest publication date, so the document only changes with its items
+function lastUpdated(entries: Entry[]): string {
+  if (entries.length === 0) return new Date().toISOString();
+  return entries.reduce(
+    (latest, entry) => (entry.publishedAt > latest ? entry.publishedAt : latest),
+    entries[0].publishedAt
+  );
+}
+
+export function renderRss(items: NewsItem[], meta: SyndicationMeta): string {
+  const entries = toEntries(items, meta);
+  const lines = [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:dc="http://purl.org/dc/elements/1.1/">`,
+    `  <channel>`,
+    `    <title>${escapeXml(meta.title)}</title>`,
+    `    <link>${escapeXml(meta.homeUrl)}</link>`,
+    `    <description>${escapeXml(meta.description)}</description>`,
+    `    <lastBuildDate>${new Date(lastUpdated(entries)).toUTCString()}</lastBuildDate>`,
+    `    <atom:link href="${escapeXml(meta.feedUrl)}" rel="self" type="application/rss+xml"/>`,
+  ];
+  if (meta.nextUrl) {
+    lines.push(
+      `    <atom:link href="${escapeXml(meta.nextUrl)}" rel="next" type="application/rss+xml"/>`
+    );
+  }
+
+  for (const entry of entries) {
+    lines.push(`    <item>`, `      <title>${escapeXml(entry.title)}</title>`);
+    if (entry.link) lines.push(`      <link>${escapeXml(entry.link)}</link>`);
+    lines.push(
+      `      <guid isPermaLink="false">${escapeXml(entry.id)}</guid>`,
+      `      <dc:creator>${escapeXml(entry.author)}</dc:creator>`,
+      `      <pubDate>${new Date(entry.publishedAt).toUTCString()}</pubDate>`,
+      ...entry.categories.map(
+        (category) => `      <category>${escapeXml(category)}</category>`
+      )
+    );
+    if (entry.comments) {
+      lines.push(`      <comments>${escapeXml(entry.comments)}</comments>`);
+    }
+    if (entry.summary) {
+      lines.push(`      <description>${escapeXml(entry.summary)}</description>`);
+    }
+    lines.push(`    </item>`);
+  }
+
+  lines.push(`  </channel>`, `</rss>`, "");
+  return lines.join("\n");
+}
+
+export function renderAtom(items: NewsItem[], meta: SyndicationMeta): string {
+  const entries = toEntries(items, meta);
+  const lines = [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<feed xmlns="http://www.w3.org/2005/Atom">`,
+    `  <id>${escapeXml(meta.feedUrl)}</id>`,
+    `  <title>${escapeXml(meta.title)}</title>`,
+    `  <subtitle>${escapeXml(meta.description)}</subtitle>`,
+    `  <updated>${lastUpdated(entries)}</updated>`,
+    `  <link rel="alternate" type="text/html" href="${escapeXml(meta.homeUrl)}"/>`,
+    `  <link rel="self" type="application/atom+xml" href="${escapeXml(meta.feedUrl)}"/>`,
+  ];
+  if (meta.nextUrl) {
+    lines.push(
+      `  <link rel="next" type="application/atom+xml" href="${escapeXml(meta.nextUrl)}"/>`
+    );
+  }
+
+  for (const entry of entries) {
+    lines.push(
+      `  <entry>`,
+      `    <id>${escapeXml(entry.id)}</id>`,
+      `    <title type="text">${escapeXml(entry.title)}</title>`
+    );
+    if (entry.link) {
+      lines.push(
+        `    <link rel="alternate" href="${escapeXml(entry.link)}"/>`
+      );
+    }
+    if (entry.comments) {
+      lines.push(
+        `    <link rel="replies" type="text/html" href="${escapeXml(entry.comments)}"/>`
+      );
+    }
+    lines.push(
+      `    <author><name>${escapeXml(entry.author)}</name></author>`,
+      `    <published>${entry.publishedAt}</published>`,
+      `    <updated>${entry.publishedAt}</updated>`,
+      ...entry.categories.map(
+        (category) => `    <category term="${escapeXml(category)}"/>`
+      )
+    );
+    if (entry.summary) {
+      lines.push(`    <summary type="text">${escapeXml(entry.summary)}</summary>`);
+    }
+    lines.push(`  </entry>`);
+  }
+
+  lines.push(`</feed>`, "");
+  return lines.join("\n");
+}
+
+/**
+ * JSON Feed 1.1 (https://www.jsonfeed.org/version/1.1/)
+ */
+export function renderJsonFeed(items: NewsItem[], meta: SyndicationMeta): string {
+  const entries = toEntries(items, meta);
+
+  return JSON.stringify({
+    version: "https://jsonfeed.org/version/1.1",
+    title: meta.title,
+    home_page_url: meta.homeUrl,
+    feed_url: meta.feedUrl,
+    description: meta.description,
+    ...(meta.nextUrl ? { next_url: meta.nextUrl } : {}),
+    items: entries.map((entry) => ({
+      id: entry.id,
+      ...(entry.link ? { url: entry.link } : {}),
+      title: entry.title,
+      // One of content_text/content_html is required
+      content_text: entry.summary ?? entry.title,
+      date_published: entry.publishedAt,
+      authors: [{ name: entry.author }],
+      ...(entry.categories.length > 0 ? { tags: entry.categories } : {}),
+      ...(entry.comments ? { _technews: { comments_url: entry.comments } } : {}),
+    })),
+  });
+}
+
+export const SYNDICATION_RENDERERS: Record<
+  SyndicationFormat,
+  (items: NewsItem[], meta: SyndicationMeta) => string
+> = {
+  rss: renderRss,
+  atom: renderAtom,
+  json: renderJsonFeed,
+};
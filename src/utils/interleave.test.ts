@@ -0,0 +1,45 @@
+import { describe, it, expect } from "vitest";
+import { interleaveByShare, resolveShares } from "./interleave";
+
+describe("interleaveByShare", () => {
+  it("should round-robin with equal shares", () => {
+    expect(interleaveByShare([["a1", "a2"], ["b1"], ["c1", "c2"]], [1, 1, 1])).toEqual([
+      "a1",
+      "b1",
+      "c1",
+      "a2",
+      "c2",
+    ]);
+  });
+
+  it("should give each list its share of the slots in order", () => {
+    const hn = Array.from({ length: 10 }, (_, i) => `hn${i}`);
+    const tab = Array.from({ length: 10 }, (_, i) => `tab${i}`);
+
+    const top = interleaveByShare([hn, tab], [0.75, 0.25]).slice(0, 8);
+
+    expect(top.filter((id) => id.startsWith("hn"))).toEqual([
+      "hn0",
+      "hn1",
+      "hn2",
+      "hn3",
+      "hn4",
+      "hn5",
+    ]);
+    expect(top.filter((id) => id.startsWith("tab"))).toEqual(["tab0", "tab1"]);
+  });
+
+  it("should place share 0 lists after the others", () => {
+    expect(interleaveByShare([["a"], ["b1", "b2"]], [0, 1])).toEqual(["b1", "b2", "a"]);
+  });
+});
+
+describe("resolveShares", () => {
+  it("should split the remainder between unconfigured keys", () => {
+    expect(resolveShares(["hn", "tab", "devto"], { hn: 0.5 })).toEqual([0.5, 0.25, 0.25]);
+  });
+
+  it("should default to equal shares", () => {
+    expect(resolveShares(["hn", "tab"], {})).toEqual([0.5, 0.5]);
+  });
+});
@@ -0,0 +1,50 @@
+/**
+ * Shares of each list: configured shares as given, the remainder split
+ * equally between lists without one (no configured share = equal shares)
+ */
+export function resolveShares<K extends string>(
+  keys: K[],
+  configured: Partial<Record<K, number>>
+): number[] {
+  const assigned = keys.reduce((sum, key) => sum + (configured[key] ?? 0), 0);
+  const unassigned = keys.filter((key) => configured[key] === undefined).length;
+  const rest = unassigned > 0 ? Math.max(0, 1 - assigned) / unassigned : 0;
+
+  return keys.map((key) => configured[key] ?? rest);
+}
+
+/**
+ * Merges ordered lists so each one gets its share of the slots, keeping
+ * every list's internal order. Slots go to the list whose next item is the
+ * most "due": (taken + 0.5) / share (Webster/Sainte-Laguë apportionment),
+ * ties to the earlier list, so equal shares give a plain round-robin.
+ * Exhausted lists leave their slots to the others; lists with share 0 only
+ * follow once the rest is exhausted.
+ */
+export function interleaveByShare<T>(lists: T[][], shares: number[]): T[] {
+  const positions = lists.map(() => 0);
+  const total = lists.reduce((sum, list) => sum + list.length, 0);
+  const result: T[] = [];
+
+  while (result.length < total) {
+    const active = lists
+      .map((_, index) => index)
+      .filter((index) => positions[index] < lists[index].length);
+    const onlyZero = active.every((index) => (shares[index] ?? 0) <= 0);
+
+    let best = active[0];
+    let bestDue = Infinity;
+    for (const index of active) {
+      const share = onlyZero ? 1 : shares[index] ?? 0;
+      const due = share > 0 ? (positions[index] + 0.5) / share : Infinity;
+      if (due < bestDue) {
+        best = index;
+        bestDue = due;
+      }
+    }
+
+    result.push(lists[best][positions[best]++]);
+  }
+
+  return result;
+}
@@ -0,0 +1,25 @@
+import { describe, it, expect } from "vitest";
+import { htmlToMarkdown } from "./markdown";
+
+describe("htmlToMarkdown", () => {
+  it("should convert Hacker News comment HTML", () => {
+    const html =
+      'It&#x27;s <i>fast</i>.<p>See <a href="https:&#x2F;&#x2F;example.com&#x2F;docs" rel="nofollow">the docs</a><p><pre><code>  let x = 1 &lt; 2;\n</code></pre>';
+
+    expect(htmlToMarkdown(html)).toBe(
+      "It's *fast*.\n\nSee [the docs](https://example.com/docs)\n\n```\n  let x = 1 < 2;\n```"
+    );
+  });
+
+  it("should keep bare links as URLs", () => {
+    const html = '<p><a href="https://example.com/a/very/long/path">https://example.com/a/very/...</a></p>';
+
+    expect(htmlToMarkdown(html)).toBe("https://example.com/a/very/long/path");
+  });
+
+  it("should not fail on out-of-range numeric entities", () => {
+    expect(htmlToMarkdown("<p>bad &#99999999; entity&nbsp;here</p>")).toBe(
+      "bad &#99999999; entity here"
+    );
+  });
+});
@@ -0,0 +1,61 @@
+import { decodeEntities } from "./entities";
+
+/**
+ * Converts the small HTML subset used in comments (HN, Lobsters, Dev.to)
+ * to Markdown: paragraphs, line breaks, links, emphasis, code, quotes and lists.
+ * Unknown tags are dropped, their text is kept.
+ * @param html Comment HTML
+ * @returns Markdown text
+ */
+export function htmlToMarkdown(html: string): string {
+  let text = html.replace(/\r\n?/g, "\n");
+
+  // Remove scripts/styles
+  text = text.replace(/<script[\s\S]*?<\/script>/gi, "");
+  text = text.replace(/<style[\s\S]*?<\/style>/gi, "");
+
+  // Code blocks first, so their content is not touched by the inline rules
+  const codeBlocks: string[] = [];
+  text = text.replace(/<pre[^>]*>([\s\S]*?)<\/pre>/gi, (_, inner: string) => {
+    const code = decodeEntities(inner.replace(/<\/?code[^>]*>/gi, "")).replace(/\n+$/, "");
+    codeBlocks.push("```\n" + code + "\n```");
+    return `\n\n\u0000${codeBlocks.length - 1}\u0000\n\n`;
+  });
+
+  text = text.replace(/<code[^>]*>([\s\S]*?)<\/code>/gi, "`$1`");
+  text = text.replace(
+    /<a\s[^>]*href=["']([^"']+)["'][^>]*>([\s\S]*?)<\/a>/gi,
+    (_, href: string, label: string) => {
+      const url = decodeEntities(href);
+      const linkText = label.replace(/<[^>]+>/g, "").trim();
+      // Bare links (HN shortens the label) are kept as plain URLs
+      return !linkText || url.startsWith(decodeEntities(linkText).replace(/\.\.\.$/, ""))
+        ? url
+        : `[${linkText}](${url})`;
+    }
+  );
+  text = text.replace(/<(strong|b)>([\s\S]*?)<\/\1>/gi, "**$2**");
+  text = text.replace(/<(em|i)>([\s\S]*?)<\/\1>/gi, "*$2*");
+  text = text.replace(/<blockquote[^>]*>([\s\S]*?)<\/blockquote>/gi, (_, inner: string) =>
+    `\n\n${inner
+      .replace(/<\/?p[^>]*>/gi, "\n")
+      .trim()
+      .split("\n")
+      .map((line) => `> ${line.trim()}`)
+      .join("\n")}\n\n`
+  );
+  text = text.replace(/<li[^>]*>/gi, "\n- ");
+  text = text.replace(/<br\s*\/?>/gi, "\n");
+  text = text.replace(/<\/?p[^>]*>/gi, "\n\n");
+
+  // Remove remaining tags
+  text = text.replace(/<[^>]+>/g, "");
+  text = decodeEntities(text);
+
+  text = text.replace(/\u0000(\d+)\u0000/g, (_, index: string) => codeBlocks[Number(index)]);
+
+  // Collapse excess blank lines
+  text = text.replace(/[ \t]+\n/g, "\n");
+  text = text.replace(/\n{3,}/g, "\n\n");
+  return text.trim();
+}
@@ -0,0 +1,83 @@
+import { describe, it, expect } from "vitest";
+import { Source } from "../types";
+import {
+  DEFAULT_RANKING_WEIGHTS,
+  parseRankingConfig,
+  resolveSourceWeights,
+} from "./ranking-config";
+
+describe("parseRankingConfig", () => {
+  it("should fill omitted weights with the defaults", () => {
+    const { config, errors } = parseRankingConfig({
+      weights: { gravity: 1.5 },
+      sources: { HackerNews: { minTechScore: 70 } },
+    });
+
+    expect(errors).toEqual([]);
+    expect(config?.weights).toEqual({ ...DEFAULT_RANKING_WEIGHTS, gravity: 1.5 });
+    expect(config?.sources).toEqual({ HackerNews: { minTechScore: 70 } });
+  });
+
+  it("should report every invalid field", () => {
+    const { config, errors } = parseRankingConfig({
+      weights: { gravity: -1, likeWeight: "1", foo: 1 },
+      sources: { Slashdot: {}, DevTo: { fewCommentsThreshold: 2.5 } },
+    });
+
+    expect(config).toBeNull();
+    expect(errors).toEqual([
+      "weights.gravity must be between 0.1 and 5",
+      "weights.likeWeight must be a number",
+      "weights.foo is not a ranking weight",
+      "sources.Slashdot is not a source",
+      "sources.DevTo.fewCommentsThreshold must be an integer",
+    ]);
+  });
+
+  it("should validate the experiment variants", () => {
+    const { errors } = parseRankingConfig({
+      experiment: {
+        id: "gravity",
+        variants: [
+          { id: "control", traffic: 0.5 },
+          { id: "control", traffic: 0.4, weights: { minTechScore: 50 } },
+        ],
+      },
+    });
+
+    expect(errors).toEqual([
+      'experiment.variants[1].id "control" is repeated',
+      "experiment.variants[1].weights.minTechScore cannot vary per variant",
+      "experiment.variants traffic must add up to 1",
+    ]);
+  });
+
+  it("should reject source shares above 100%", () => {
+    const { errors } = parseRankingConfig({
+      sourceShares: { HackerNews: 0.7, TabNews: 0.5 },
+    });
+
+    expect(errors).toEqual(["sourceShares must add up to at most 1"]);
+  });
+
+  it("should validate the calibration settings", () => {
+    const { config, errors } = parseRankingConfig({
+      calibration: { enabled: "yes", windowDays: 0 },
+    });
+
+    expect(config).toBeNull();
+    expect(errors).toHaveLength(2);
+    expect(errors).toContain("calibration.enabled must be a boolean");
+  });
+});
+
+describe("resolveSourceWeights", () => {
+  it("should apply the source overrides", () => {
+    const { config } = parseRankingConfig({
+      sources: { TabNews: { minTechScore: 50 } },
+    });
+
+    expect(resolveSourceWeights(config!, Source.TabNews).minTechScore).toBe(50);
+    expect(resolveSourceWeights(config!, Source.DevTo).minTechScore).toBe(61);
+  });
+});
@@ -0,0 +1,412 @@
+import {
+  Source,
+  type CalibrationConfig,
+  type DiversityConfig,
+  type Experiment,
+  type RankingConfig,
+  type RankingWeights,
+  type ReputationConfig,
+} from "../types";
+
+export const DEFAULT_RANKING_WEIGHTS: RankingWeights = {
+  likeWeight: 1.2,
+  commentWeight: 0.8,
+  gravity: 1.2,
+  techScoreWeight: 0.015,
+  zeroCommentPenalty: 0.2,
+  fewCommentsPenalty: 0.5,
+  fewCommentsThreshold: 3,
+  minTechScore: 61,
+};
+
+export const DEFAULT_DIVERSITY: DiversityConfig = {
+  strength: 0.3,
+  window: 3,
+  topN: 30,
+  maxPerAuthor: 2,
+  maxPerDomain: 3,
+};
+
+export const DEFAULT_CALIBRATION: CalibrationConfig = {
+  enabled: true,
+  minSamples: 50,
+  windowDays: 30,
+};
+
+export const DEFAULT_REPUTATION: ReputationConfig = {
+  enabled: true,
+  maxAdjustment: 0.15,
+  minPosts: 3,
+  windowDays: 30,
+};
+
+export const DEFAULT_RANKING_CONFIG: RankingConfig = {
+  weights: DEFAULT_RANKING_WEIGHTS,
+  sources: {},
+  sourceShares: {},
+  diversity: DEFAULT_DIVERSITY,
+  calibration: DEFAULT_CALIBRATION,
+  reputation: DEFAULT_REPUTATION,
+  experiment: null,
+  updatedAt: null,
+};
+
+interface NumberRule {
+  min: number;
+  max?: number;
+  integer?: boolean;
+}
+
+// Accepted range of each weight
+const WEIGHT_RULES: Record<keyof RankingWeights, NumberRule> = {
+  likeWeight: { min: 0 },
+  commentWeight: { min: 0 },
+  gravity: { min: 0.1, max: 5 },
+  techScoreWeight: { min: 0, max: 1 },
+  zeroCommentPenalty: { min: 0, max: 1 },
+  fewCommentsPenalty: { min: 0, max: 1 },
+  fewCommentsThreshold: { min: 0, integer: true },
+  minTechScore: { min: 0, max: 100 },
+};
+
+const DIVERSITY_RULES: Record<keyof DiversityConfig, NumberRule> = {
+  strength: { min: 0, max: 1 },
+  window: { min: 1, max: 20, integer: true },
+  topN: { min: 0, integer: true },
+  maxPerAuthor: { min: 1, integer: true },
+  maxPerDomain: { min: 1, integer: true },
+};
+
+const CALIBRATION_RULES: Record<
+  Exclude<keyof CalibrationConfig, "enabled">,
+  NumberRule
+> = {
+  minSamples: { min: 10, integer: true },
+  windowDays: { min: 1, max: 90, integer: true },
+};
+
+const REPUTATION_RULES: Record<
+  Exclude<keyof ReputationConfig, "enabled">,
+  NumberRule
+> = {
+  maxAdjustment: { min: 0, max: 0.5 },
+  minPosts: { min: 1, integer: true },
+  windowDays: { min: 1, max: 90, integer: true },
+};
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function validateNumbers<T extends object>(
+  input: Record<string, unknown>,
+  rules: Record<keyof T, NumberRule>,
+  label: string,
+  path: string,
+  errors: string[]
+): Partial<T> {
+  const values: Partial<Record<keyof T, number>> = {};
+
+  for (const [key, value] of Object.entries(input)) {
+    const rule = rules[key as keyof T];
+    if (!rule) {
+      errors.push(`${path}.${key} is not a ${label}`);
+      continue;
+    }
+
+    if (typeof value !== "number" || !Number.isFinite(value)) {
+      errors.push(`${path}.${key} must be a number`);
+    } else if (rule.integer && !Number.isInteger(value)) {
+      errors.push(`${path}.${key} must be an integer`);
+    } else if (value < rule.min || (rule.max !== undefined && value > rule.max)) {
+      errors.push(
+        `${path}.${key} must be between ${rule.min} and ${rule.max ?? "∞"}`
+      );
+    } else {
+      values[key as keyof T] = value;
+    }
+  }
+
+  return values as Partial<T>;
+}
+
+// Settings with an on/off switch and numeric parameters
+function validateSwitchable<T extends { enabled: boolean }>(
+  input: Record<string, unknown>,
+  rules: Record<Exclude<keyof T, "enabled">, NumberRule>,
+  label: string,
+  path: string,
+  errors: string[]
+): Partial<T> {
+  const { enabled, ...numbers } = input;
+  const values = validateNumbers<Omit<T, "enabled">>(
+    numbers,
+    rules as Record<keyof Omit<T, "enabled">, NumberRule>,
+    label,
+    path,
+    errors
+  ) as Partial<T>;
+
+  if (enabled !== undefined) {
+    if (typeof enabled === "boolean") {
+      values.enabled = enabled;
+    } else {
+      errors.push(`${path}.enabled must be a boolean`);
+    }
+  }
+
+  return values;
+}
+
+function validateWeights(
+  input: Record<string, unknown>,
+  path: string,
+  errors: string[]
+): Partial<RankingWeights> {
+  return validateNumbers<RankingWeights>(
+    input,
+    WEIGHT_RULES,
+    "ranking weight",
+    path,
+    errors
+  );
+}
+
+const EXPERIMENT_ID_PATTERN = /^[a-z0-9][a-z0-9_-]*$/i;
+
+function validateExperiment(
+  input: unknown,
+  errors: string[]
+): Experiment | null {
+  if (input === null) return null;
+  if (!isPlainObject(input)) {
+    errors.push("experiment must be an object or null");
+    return null;
+  }
+
+  const { id, variants } = input;
+  if (typeof id !== "string" || !EXPERIMENT_ID_PATTERN.test(id)) {
+    errors.push("experiment.id must be a slug (letters, digits, - and _)");
+  }
+  if (!Array.isArray(variants) || variants.length < 2) {
+    errors.push("experiment.variants must list at least 2 variants");
+    return null;
+  }
+
+  const experiment: Experiment = { id: id as string, variants: [] };
+  const seen = new Set<string>();
+  let totalTraffic = 0;
+
+  variants.forEach((variant, index) => {
+    const path = `experiment.variants[${index}]`;
+    if (!isPlainObject(variant)) {
+      errors.push(`${path} must be an object`);
+      return;
+    }
+
+    const { id: variantId, traffic, weights = {} } = variant;
+    if (typeof variantId !== "string" || !EXPERIMENT_ID_PATTERN.test(variantId)) {
+      errors.push(`${path}.id must be a slug (letters, digits, - and _)`);
+    } else if (seen.has(variantId)) {
+      errors.push(`${path}.id "${variantId}" is repeated`);
+    }
+    seen.add(String(variantId));
+
+    if (typeof traffic !== "number" || !(traffic > 0 && traffic <= 1)) {
+      errors.push(`${path}.traffic must be a number between 0 and 1`);
+    } else {
+      totalTraffic += traffic;
+    }
+
+    if (!isPlainObject(weights)) {
+      errors.push(`${path}.weights must be an object`);
+      return;
+    }
+    // Variants share the filtered mix, only ranking weights can vary
+    if ("minTechScore" in weights) {
+      errors.push(`${path}.weights.minTechScore cannot vary per variant`);
+    }
+
+    experiment.variants.push({
+      id: variantId as string,
+      traffic: traffic as number,
+      weights: validateWeights(weights, `${path}.weights`, errors),
+    });
+  });
+
+  if (Math.abs(totalTraffic - 1) > 1e-6) {
+    errors.push("experiment.variants traffic must add up to 1");
+  }
+
+  return experiment;
+}
+
+/**
+ * Validates a ranking config document (file, Mongo or admin request body).
+ * Omitted weights and diversity settings fall back to the defaults;
+ * sources only hold overrides.
+ * Without an experiment, none is running.
+ * @returns The config, or null with every validation error
+ */
+export function parseRankingConfig(
+  input: unknown,
+  updatedAt: string | null = null
+): { config: RankingConfig | null; errors: string[] } {
+  const errors: string[] = [];
+
+  if (!isPlainObject(input)) {
+    return { config: null, errors: ["config must be an object"] };
+  }
+
+  for (const key of Object.keys(input)) {
+    if (
+      ![
+        "weights",
+        "sources",
+        "sourceShares",
+        "diversity",
+        "calibration",
+        "reputation",
+        "experiment",
+        "updatedAt",
+      ].includes(key)
+    ) {
+      errors.push(`${key} is not a config field`);
+    }
+  }
+
+  let weights: Partial<RankingWeights> = {};
+  if (input.weights !== undefined) {
+    if (isPlainObject(input.weights)) {
+      weights = validateWeights(input.weights, "weights", errors);
+    } else {
+      errors.push("weights must be an object");
+    }
+  }
+
+  const sources: RankingConfig["sources"] = {};
+  if (input.sources !== undefined) {
+    if (isPlainObject(input.sources)) {
+      const validSources = Object.values(Source) as string[];
+
+      for (const [source, overrides] of Object.entries(input.sources)) {
+        if (!validSources.includes(source)) {
+          errors.push(`sources.${source} is not a source`);
+        } else if (!isPlainObject(overrides)) {
+          errors.push(`sources.${source} must be an object`);
+        } else {
+          sources[source as Source] = validateWeights(
+            overrides,
+            `sources.${source}`,
+            errors
+          );
+        }
+      }
+    } else {
+      errors.push("sources must be an object");
+    }
+  }
+
+  const sourceShares: RankingConfig["sourceShares"] = {};
+  if (input.sourceShares !== undefined) {
+    if (isPlainObject(input.sourceShares)) {
+      const validSources = Object.values(Source) as string[];
+      let totalShare = 0;
+
+      for (const [source, share] of Object.entries(input.sourceShares)) {
+        if (!validSources.includes(source)) {
+          errors.push(`sourceShares.${source} is not a source`);
+        } else if (typeof share !== "number" || !(share >= 0 && share <= 1)) {
+          errors.push(`sourceShares.${source} must be a number between 0 and 1`);
+        } else {
+          sourceShares[source as Source] = share;
+          totalShare += share;
+        }
+      }
+
+      if (totalShare > 1 + 1e-6) {
+        errors.push("sourceShares must add up to at most 1");
+      }
+    } else {
+      errors.push("sourceShares must be an object");
+    }
+  }
+
+  let diversity: Partial<DiversityConfig> = {};
+  if (input.diversity !== undefined) {
+    if (isPlainObject(input.diversity)) {
+      diversity = validateNumbers<DiversityConfig>(
+        input.diversity,
+        DIVERSITY_RULES,
+        "diversity setting",
+        "diversity",
+        errors
+      );
+    } else {
+      errors.push("diversity must be an object");
+    }
+  }
+
+  let calibration: Partial<CalibrationConfig> = {};
+  if (input.calibration !== undefined) {
+    if (isPlainObject(input.calibration)) {
+      calibration = validateSwitchable<CalibrationConfig>(
+        input.calibration,
+        CALIBRATION_RULES,
+        "calibration setting",
+        "calibration",
+        errors
+      );
+    } else {
+      errors.push("calibration must be an object");
+    }
+  }
+
+  let reputation: Partial<ReputationConfig> = {};
+  if (input.reputation !== undefined) {
+    if (isPlainObject(input.reputation)) {
+      reputation = validateSwitchable<ReputationConfig>(
+        input.reputation,
+        REPUTATION_RULES,
+        "reputation setting",
+        "reputation",
+        errors
+      );
+    } else {
+      errors.push("reputation must be an object");
+    }
+  }
+
+  const experiment =
+    input.experiment === undefined
+      ? null
+      : validateExperiment(input.experiment, errors);
+
+  if (errors.length > 0) {
+    return { config: null, errors };
+  }
+
+  return {
+    config: {
+      weights: { ...DEFAULT_RANKING_WEIGHTS, ...weights },
+      sources,
+      sourceShares,
+      diversity: { ...DEFAULT_DIVERSITY, ...diversity },
+      calibration: { ...DEFAULT_CALIBRATION, ...calibration },
+      reputation: { ...DEFAULT_REPUTATION, ...reputation },
+      experiment,
+      updatedAt,
+    },
+    errors,
+  };
+}
+
+/**
+ * Weights of a source: global weights with the source overrides applied
+ */
+export function resolveSourceWeights(
+  config: RankingConfig,
+  source: Source
+): RankingWeights {
+  return { ...config.weights, ...config.sources[source] };
+}
@@ -0,0 +1,94 @@
+import { describe, it, expect } from "vitest";
+import { Source, type NewsItem } from "../types";
+import {
+  buildReputation,
+  reputationKeys,
+  reputationMultiplier,
+} from "./reputation";
+
+describe("reputationKeys", () => {
+  it("should use the linked domain and the author per source", () => {
+    const item = {
+      id: "1",
+      title: "Post",
+      author: "alice",
+      url: "https://www.example.com/post",
+      source: Source.HackerNews,
+    } as NewsItem;
+
+    expect(reputationKeys(item)).toEqual({
+      domain: "example.com",
+      author: "HackerNews:alice",
+    });
+  });
+
+  it("should not give self posts a domain", () => {
+    const item = {
+      id: "2",
+      title: "Ask HN",
+      author: "bob",
+      url: "https://news.ycombinator.com/item?id=2",
+      source: Source.HackerNews,
+    } as NewsItem;
+
+    expect(reputationKeys(item).domain).toBeNull();
+  });
+});
+
+describe("buildReputation", () => {
+  const item = (
+    id: string,
+    url: string,
+    score: number,
+    techScore: number
+  ): NewsItem => ({
+    id,
+    title: `Title ${id}`,
+    author: `author-${id}`,
+    url,
+    score,
+    commentCount: score,
+    techScore,
+    publishedAt: "2025-01-01T10:00:00.000Z",
+    source: Source.HackerNews,
+  });
+
+  const items = [
+    ...Array.from({ length: 10 }, (_, i) =>
+      item(`good-${i}`, `https://good.dev/${i}`, 100 + i, 90)
+    ),
+    ...Array.from({ length: 10 }, (_, i) =>
+      item(`bad-${i}`, `https://bad.biz/${i}`, i, 10)
+    ),
+    item("once", "https://once.io/post", 200, 100),
+  ];
+
+  const entries = buildReputation(items, "2025-01-02T00:00:00.000Z");
+  const domain = (key: string) =>
+    entries.find((entry) => entry.kind === "domain" && entry.key === key)!;
+
+  it("should reward domains with consistently good posts", () => {
+    expect(domain("good.dev").posts).toBe(10);
+    expect(domain("good.dev").reputation).toBeGreaterThan(0.7);
+    expect(domain("bad.biz").reputation).toBeLessThan(0.3);
+  });
+
+  it("should keep domains with few posts close to neutral", () => {
+    expect(domain("once.io").reputation).toBeGreaterThan(0.5);
+    expect(domain("once.io").reputation).toBeLessThan(domain("good.dev").reputation);
+  });
+
+  it("should build an entry per author", () => {
+    const author = entries.find((entry) => entry.key === "HackerNews:author-once");
+
+    expect(author).toMatchObject({ kind: "author", name: "author-once", posts: 1 });
+  });
+});
+
+describe("reputationMultiplier", () => {
+  it("should be neutral at 0.5 and bounded by the max adjustment", () => {
+    expect(reputationMultiplier(0.5, 0.15)).toBe(1);
+    expect(reputationMultiplier(1, 0.15)).toBeCloseTo(1.15);
+    expect(reputationMultiplier(0, 0.15)).toBeCloseTo(0.85);
+  });
+});
@@ -0,0 +1,136 @@
+import { buildPercentileTable, percentileOf } from "./calibration";
+import { getDomain, getExternalUrl } from "./url";
+import type {
+  NewsItem,
+  ReputationEntry,
+  ReputationKind,
+  Source,
+} from "../types";
+
+const NEUTRAL_REPUTATION = 0.5;
+
+// Neutral posts every domain/author starts with: one great post moves the
+// reputation a little, a consistent track record moves it a lot
+const PRIOR_POSTS = 5;
+
+interface Accumulator {
+  kind: ReputationKind;
+  key: string;
+  name: string;
+  sources: Set<Source>;
+  posts: number;
+  techScoreSum: number;
+  engagementSum: number;
+  qualitySum: number;
+}
+
+/**
+ * Keys an item counts for: the domain it links to (none for self posts)
+ * and its author, per source since usernames are not shared across sources
+ */
+export function reputationKeys(item: NewsItem): {
+  domain: string | null;
+  author: string | null;
+} {
+  const externalUrl = getExternalUrl(item);
+
+  return {
+    domain: externalUrl ? getDomain(externalUrl) : null,
+    author: item.author ? `${item.source}:${item.author}` : null,
+  };
+}
+
+/**
+ * Reputation of every domain and author of the items (score = score on the source).
+ * Post quality is the average of techScore/100 and the engagement percentile
+ * within the post's source; the reputation is the average quality, pulled
+ * towards neutral (0.5) for domains/authors with few posts.
+ */
+export function buildReputation(
+  items: NewsItem[],
+  computedAt: string
+): ReputationEntry[] {
+  const tables = new Map<Source, { score: number[]; comments: number[] }>();
+  for (const source of new Set(items.map((item) => item.source))) {
+    const sourceItems = items.filter((item) => item.source === source);
+    tables.set(source, {
+      score: buildPercentileTable(sourceItems.map((item) => item.score || 0)),
+      comments: buildPercentileTable(
+        sourceItems.map((item) => item.commentCount || 0)
+      ),
+    });
+  }
+
+  const accumulators = new Map<string, Accumulator>();
+  const add = (
+    kind: ReputationKind,
+    key: string,
+    name: string,
+    item: NewsItem,
+    engagement: number
+  ) => {
+    const id = `${kind}:${key}`;
+    let acc = accumulators.get(id);
+    if (!acc) {
+      acc = {
+        kind,
+        key,
+        name,
+        sources: new Set(),
+        posts: 0,
+        techScoreSum: 0,
+        engagementSum: 0,
+        qualitySum: 0,
+      };
+      accumulators.set(id, acc);
+    }
+
+    const techScore = item.techScore || 0;
+    acc.sources.add(item.source);
+    acc.posts++;
+    acc.techScoreSum += techScore;
+    acc.engagementSum += engagement;
+    acc.qualitySum += (techScore / 100 + engagement) / 2;
+  };
+
+  for (const item of items) {
+    const table = tables.get(item.source)!;
+    const engagement =
+      (percentileOf(item.score || 0, table.score) +
+        percentileOf(item.commentCount || 0, table.comments)) /
+      2;
+
+    const { domain, author } = reputationKeys(item);
+    if (domain) add("domain", domain, domain, item, engagement);
+    if (author) add("author", author, item.author!, item, engagement);
+  }
+
+  return [...accumulators.values()].map((acc) => ({
+    kind: acc.kind,
+    key: acc.key,
+    name: acc.name,
+    sources: [...acc.sources],
+    posts: acc.posts,
+    avgTechScore: Math.round(acc.techScoreSum / acc.posts),
+    avgEngagementPercentile:
+      Math.round((acc.engagementSum / acc.posts) * 1000) / 1000,
+    reputation:
+      Math.round(
+        ((acc.qualitySum + PRIOR_POSTS * NEUTRAL_REPUTATION) /
+          (acc.posts + PRIOR_POSTS)) *
+          1000
+      ) / 1000,
+    computedAt,
+  }));
+}
+
+/**
+ * Rank multiplier of a reputation: 1 when neutral,
+ * 1 ± maxAdjustment at the extremes (0 and 1)
+ */
+export function reputationMultiplier(
+  reputation: number,
+  maxAdjustment: number
+): number {
+  return 1 + (reputation - NEUTRAL_REPUTATION) * 2 * maxAdjustment;
+}
@@ -0,0 +1,29 @@
+import { describe, it, expect } from "vitest";
+import { capTechScore, readCachedTechScore } from "./scoring";
+
+describe("capTechScore", () => {
+  it("should record whether the code hosting cap lowered the score", () => {
+    expect(capTechScore(90, "https://github.com/oven-sh/bun")).toEqual({
+      score: 60,
+      codeHostingCapped: true,
+    });
+    expect(capTechScore(60, "https://github.com/oven-sh/bun")).toEqual({
+      score: 60,
+      codeHostingCapped: false,
+    });
+    expect(capTechScore(90, "https://bun.sh/blog")).toEqual({
+      score: 90,
+      codeHostingCapped: false,
+    });
+  });
+});
+
+describe("readCachedTechScore", () => {
+  it("should report the cap as unknown for plain cached scores", () => {
+    expect(readCachedTechScore(60)).toEqual({ score: 60, codeHostingCapped: null });
+    expect(readCachedTechScore({ score: 60, codeHostingCapped: true })).toEqual({
+      score: 60,
+      codeHostingCapped: true,
+    });
+  });
+});
@@ -6,7 +6,18 @@ const CODE_HOSTING_DOMAINS = [
   "sourceforge.net",
 ];
 
-const MAX_SCORE_FOR_CODE_HOSTING = 60;
+export const MAX_SCORE_FOR_CODE_HOSTING = 60;
+
+/**
+ * Whether the URL points to a code hosting site (GitHub, GitLab, ...).
+ */
+export function isCodeHostingUrl(url?: string | null): boolean {
+  if (!url) {
+    return false;
+  }
+
+  return CODE_HOSTING_DOMAINS.some(domain => url.includes(domain));
+}
 
 /**
  * Caps the tech score for URLs pointing to code hosting sites.
@@ -16,15 +27,32 @@ const MAX_SCORE_FOR_CODE_HOSTING = 60;
  * @returns The (potentially capped) score.
  */
 export function capScoreForCodeHostingSites(score: number, url?: string | null): number {
-  if (!url) {
-    return score;
-  }
-
-  const isCodeHosting = CODE_HOSTING_DOMAINS.some(domain => url.includes(domain));
-
-  if (isCodeHosting) {
+  if (isCodeHostingUrl(url)) {
     return Math.min(score, MAX_SCORE_FOR_CODE_HOSTING);
   }
 
   return score;
 }
+
+// A source's tech score, as cached by its tech filter
+export interface SourceTechScore {
+  score: number;
+  codeHostingCapped: boolean | null; // null: cached before the flag was recorded
+}
+
+/**
+ * Caps the score like capScoreForCodeHostingSites, recording whether it was lowered
+ */
+export function capTechScore(score: number, url?: string | null): SourceTechScore {
+  const capped = capScoreForCodeHostingSites(score, url);
+  return { score: capped, codeHostingCapped: capped < score };
+}
+
+/**
+ * Reads a cached source tech score (older entries are plain numbers)
+ */
+export function readCachedTechScore(cached: number | SourceTechScore): SourceTechScore {
+  return typeof cached === "number"
+    ? { score: cached, codeHostingCapped: null }
+    : cached;
+}
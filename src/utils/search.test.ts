@@ -0,0 +1,107 @@
+import { describe, it, expect } from "vitest";
+import { Source, type NewsItem } from "../types";
+import {
+  foldText,
+  highlightItem,
+  parseSearchParams,
+  rankSearchHits,
+  termWeights,
+} from "./search";
+
+const item = (extra: Partial<NewsItem> = {}): NewsItem => ({
+  id: "1",
+  title: "Postgres VACUUM explained",
+  author: "alice",
+  score: 10,
+  publishedAt: "2025-12-10T10:00:00.000Z",
+  source: Source.HackerNews,
+  ...extra,
+});
+
+describe("foldText", () => {
+  it("should lowercase and strip accents, keeping the length", () => {
+    const text = "Programação em Árvore";
+
+    expect(foldText(text)).toBe("programacao em arvore");
+    expect(foldText(text)).toHaveLength(text.length);
+  });
+});
+
+describe("termWeights", () => {
+  it("should weight title terms above body terms", () => {
+    const weights = termWeights(
+      item({ body: "How postgres reclaims space", keywords: ["database"] })
+    );
+
+    expect(weights.get("vacuum")).toBe(10);
+    expect(weights.get("postgres")).toBe(11);
+    expect(weights.get("database")).toBe(5);
+  });
+});
+
+describe("rankSearchHits", () => {
+  it("should favor recent items among equally relevant ones", () => {
+    const now = new Date("2025-12-15T10:00:00.000Z");
+    const old = item({ id: "old", publishedAt: "2025-10-01T10:00:00.000Z" });
+    const recent = item({ id: "recent" });
+
+    const ranked = rankSearchHits(
+      [
+        { item: old, textScore: 10 },
+        { item: recent, textScore: 10 },
+        { item: item({ id: "miss" }), textScore: 0 },
+      ],
+      now
+    );
+
+    expect(ranked.map((hit) => hit.item.id)).toEqual(["recent", "old"]);
+    expect(ranked[0].relevance).toBeLessThanOrEqual(1);
+  });
+});
+
+describe("highlightItem", () => {
+  it("should mark whole-word matches and escape HTML", () => {
+    const { title, snippet } = highlightItem(
+      item({ title: "<Postgres> vacuuming vs VACUUM", body: "Short **vacuum** notes" }),
+      "vacuum"
+    );
+
+    expect(title).toBe("&lt;Postgres&gt; vacuuming vs <mark>VACUUM</mark>");
+    expect(snippet).toBe("Short <mark>vacuum</mark> notes");
+  });
+
+  it("should cut the snippet around the first match", () => {
+    const body = `${"lorem ipsum ".repeat(30)}autovacuum tuning ${"dolor ".repeat(40)}`;
+    const { snippet } = highlightItem(item({ body }), "autovacuum");
+
+    expect(snippet!.startsWith("…")).toBe(true);
+    expect(snippet!.endsWith("…")).toBe(true);
+    expect(snippet).toContain("<mark>autovacuum</mark>");
+  });
+});
+
+describe("parseSearchParams", () => {
+  const sourcesBySlug = { hackernews: Source.HackerNews };
+
+  it("should require a query and validate the filters", () => {
+    const { params, errors } = parseSearchParams(
+      { q: " ", source: "orkut", min_tech_score: "abc" },
+      sourcesBySlug
+    );
+
+    expect(params).toBeNull();
+    expect(errors).toHaveLength(3);
+  });
+
+  it("should parse the filters", () => {
+    const { params } = parseSearchParams(
+      { q: "postgres vacuum", source: "hackernews", since: "2025-12-01" },
+      sourcesBySlug
+    );
+
+    expect(params).toEqual({
+      q: "postgres vacuum",
+      filters: { sources: [Source.HackerNews], since: "2025-12-01T00:00:00.000Z" },
+    });
+  });
+});
@@ -0,0 +1,252 @@
+import { parseDateParam, parseSourcesParam } from "./feed-filters";
+import type { NewsItem, SearchParams, Source } from "../types";
+
+// Weight of each field in the text relevance (same as the warehouse text index)
+export const SEARCH_FIELD_WEIGHTS = { title: 10, keywords: 5, body: 1 };
+
+const MIN_QUERY_LENGTH = 2;
+const MAX_QUERY_LENGTH = 200;
+
+// Ordering: 70% text relevance, 30% recency (halves every week)
+const RELEVANCE_WEIGHT = 0.7;
+const RECENCY_HALF_LIFE_DAYS = 7;
+
+const SNIPPET_LENGTH = 160;
+
+/**
+ * Lowercase text without accents ("Árvore" → "arvore"), one UTF-16 unit
+ * per unit of the original, so match positions apply to both
+ */
+export function foldText(text: string): string {
+  let folded = "";
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+      .normalize("NFD")
+      .replace(/[\u0300-\u036f]/g, "")
+      .toLowerCase();
+    folded += char.length === 1 ? char : text[i];
+  }
+  return folded;
+}
+
+export function tokenize(text: string): string[] {
+  return foldText(text)
+    .split(/[^a-z0-9+#]+/)
+    .filter((token) => token.length >= 2);
+}
+
+/**
+ * Weight of every term of an item (occurrences × field weight),
+ * for the in-memory search index
+ */
+export function termWeights(item: NewsItem): Map<string, number> {
+  const weights = new Map<string, number>();
+  const fields: Array<[string, number]> = [
+    [item.title, SEARCH_FIELD_WEIGHTS.title],
+    [(item.keywords ?? []).join(" "), SEARCH_FIELD_WEIGHTS.keywords],
+    [item.body ?? "", SEARCH_FIELD_WEIGHTS.body],
+  ];
+
+  for (const [text, weight] of fields) {
+    for (const token of tokenize(text)) {
+      weights.set(token, (weights.get(token) ?? 0) + weight);
+    }
+  }
+
+  return weights;
+}
+
+/**
+ * Combines text relevance (relative to the best match) with recency
+ * @returns The items, most relevant first, with their relevance (0-1)
+ */
+export function rankSearchHits(
+  candidates: Array<{ item: NewsItem; textScore: number }>,
+  now: Date = new Date()
+): Array<{ item: NewsItem; relevance: number }> {
+  const maxTextScore = Math.max(0, ...candidates.map((c) => c.textScore));
+  if (maxTextScore === 0) return [];
+
+  return candidates
+    .filter((candidate) => candidate.textScore > 0)
+    .map(({ item, textScore }) => {
+      const ageDays = Math.max(
+        0,
+        (now.getTime() - new Date(item.publishedAt).getTime()) /
+          (24 * 60 * 60 * 1000)
+      );
+      const recency = Math.pow(0.5, ageDays / RECENCY_HALF_LIFE_DAYS);
+      const relevance =
+        RELEVANCE_WEIGHT * (textScore / maxTextScore) +
+        (1 - RELEVANCE_WEIGHT) * recency;
+
+      return { item, relevance: Math.round(relevance * 1000) / 1000 };
+    })
+    .sort((a, b) => b.relevance - a.relevance);
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// Markdown reduced to plain text for snippets (also used by the feed writer)
+export function plainText(markdown: string): string {
+  return markdown
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/[#>*_`~|]+/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+// Whole-word occurrences of the terms, merged and in order
+function matchRanges(text: string, terms: string[]): Array<[number, number]> {
+  const folded = foldText(text);
+  const ranges: Array<[number, number]> = [];
+
+  for (const term of terms) {
+    const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    const pattern = new RegExp(`(?<![a-z0-9])${escaped}(?![a-z0-9])`, "g");
+    for (const match of folded.matchAll(pattern)) {
+      ranges.push([match.index!, match.index! + term.length]);
+    }
+  }
+
+  ranges.sort((a, b) => a[0] - b[0]);
+  const merged: Array<[number, number]> = [];
+  for (const range of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1]);
+    } else {
+      merged.push([...range]);
+    }
+  }
+  return merged;
+}
+
+function markRanges(
+  text: string,
+  ranges: Array<[number, number]>,
+  start: number,
+  end: number
+): string {
+  let result = "";
+  let position = start;
+
+  for (const [from, to] of ranges) {
+    if (to <= start || from >= end) continue;
+    const markFrom = Math.max(from, start);
+    const markTo = Math.min(to, end);
+    result += escapeHtml(text.slice(position, markFrom));
+    result += `<mark>${escapeHtml(text.slice(markFrom, markTo))}</mark>`;
+    position = markTo;
+  }
+
+  return result + escapeHtml(text.slice(position, end));
+}
+
+/**
+ * Title and body excerpt with the query terms wrapped in <mark> (HTML-escaped).
+ * The excerpt starts a little before the first match in the body.
+ */
+export function highlightItem(
+  item: NewsItem,
+  q: string
+): { title: string; snippet: string | null } {
+  const terms = [...new Set(tokenize(q))];
+  const title = markRanges(
+    item.title,
+    matchRanges(item.title, terms),
+    0,
+    item.title.length
+  );
+
+  const body = item.body ? plainText(item.body) : "";
+  if (!body) return { title, snippet: null };
+
+  const ranges = matchRanges(body, terms);
+  let start = 0;
+  if (ranges.length > 0 && ranges[0][0] > SNIPPET_LENGTH / 4) {
+    // Start on a word boundary shortly before the match
+    const from = ranges[0][0] - SNIPPET_LENGTH / 4;
+    const space = body.indexOf(" ", from);
+    start = space >= 0 && space < ranges[0][0] ? space + 1 : from;
+  }
+  let end = Math.min(body.length, start + SNIPPET_LENGTH);
+  if (end < body.length) {
+    const space = body.lastIndexOf(" ", end);
+    if (space > start) end = space;
+  }
+
+  const snippet = markRanges(body, ranges, start, end);
+  return {
+    title,
+    snippet: `${start > 0 ? "…" : ""}${snippet}${end < body.length ? "…" : ""}`,
+  };
+}
+
+/**
+ * Validates the /api/search query params (source is given by slug)
+ * @returns The params, or null with every validation error
+ */
+export function parseSearchParams(
+  query: Record<string, string | undefined>,
+  sourcesBySlug: Record<string, Source>
+): { params: SearchParams | null; errors: string[] } {
+  const errors: string[] = [];
+  const { q, source, since, until, min_tech_score: minTechScore } = query;
+  const params: SearchParams = { q: (q ?? "").trim(), filters: {} };
+
+  if (
+    params.q.length < MIN_QUERY_LENGTH ||
+    params.q.length > MAX_QUERY_LENGTH
+  ) {
+    errors.push(
+      `q must have ${MIN_QUERY_LENGTH} to ${MAX_QUERY_LENGTH} characters`
+    );
+  } else if (tokenize(params.q).length === 0) {
+    errors.push("q must contain at least one word");
+  }
+
+  if (source !== undefined) {
+    params.filters.sources = parseSourcesParam(
+      "source",
+      source,
+      sourcesBySlug,
+      errors
+    );
+  }
+
+  if (since !== undefined) {
+    params.filters.since = parseDateParam("since", since, errors);
+  }
+  if (until !== undefined) {
+    params.filters.until = parseDateParam("until", until, errors);
+  }
+  if (
+    params.filters.since &&
+    params.filters.until &&
+    params.filters.since > params.filters.until
+  ) {
+    errors.push("since must be before until");
+  }
+
+  if (minTechScore !== undefined) {
+    const value = Number(minTechScore);
+    if (minTechScore.trim() === "" || !(value >= 0 && value <= 100)) {
+      errors.push("min_tech_score must be a number between 0 and 100");
+    } else {
+      params.filters.minTechScore = value;
+    }
+  }
+
+  if (errors.length > 0) {
+    return { params: null, errors };
+  }
+
+  return { params, errors };
+}
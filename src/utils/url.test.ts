@@ -0,0 +1,85 @@
+import { describe, it, expect } from "vitest";
+import { Source, type NewsItem } from "../types";
+import { canonicalizeUrl, getDiscussionUrl, getExternalUrl } from "./url";
+
+describe("canonicalizeUrl", () => {
+  it("should normalize scheme, host, trailing slash and fragment", () => {
+    expect(canonicalizeUrl("http://WWW.Example.com/blog/post/#comments")).toBe(
+      "https://example.com/blog/post"
+    );
+    expect(canonicalizeUrl("https://example.com:443/")).toBe("https://example.com");
+    expect(canonicalizeUrl("https://m.example.com/a/index.html")).toBe(
+      "https://example.com/a"
+    );
+  });
+
+  it("should strip tracking params and sort the rest", () => {
+    expect(
+      canonicalizeUrl(
+        "https://example.com/post?utm_source=hn&b=2&fbclid=x&a=1&ref=lobsters"
+      )
+    ).toBe("https://example.com/post?a=1&b=2");
+  });
+
+  it("should unwrap redirectors and aliases", () => {
+    expect(
+      canonicalizeUrl(
+        "https://out.reddit.com/t3_abc?url=https%3A%2F%2Fwww.example.com%2Fpost%2F&token=x"
+      )
+    ).toBe("https://example.com/post");
+    expect(
+      canonicalizeUrl("https://www.google.com/url?q=https://example.com/post?utm_medium=x")
+    ).toBe("https://example.com/post");
+    expect(canonicalizeUrl("https://youtu.be/dQw4w9WgXcQ?si=abc")).toBe(
+      "https://youtube.com/watch?v=dQw4w9WgXcQ"
+    );
+    expect(canonicalizeUrl("https://x.com/user/status/1")).toBe(
+      "https://twitter.com/user/status/1"
+    );
+  });
+
+  it("should reject non-http URLs", () => {
+    expect(canonicalizeUrl("not a url")).toBeNull();
+    expect(canonicalizeUrl("mailto:someone@example.com")).toBeNull();
+  });
+});
+
+describe("getExternalUrl / getDiscussionUrl", () => {
+  const item = (overrides: Partial<NewsItem>): NewsItem => ({
+    id: "1",
+    title: "Title",
+    author: "author",
+    score: 10,
+    publishedAt: "2025-01-01T00:00:00.000Z",
+    source: Source.HackerNews,
+    ...overrides,
+  });
+
+  it("should tell the story link from the discussion page", () => {
+    const lobsters = item({
+      id: "lobsters-abc",
+      source: Source.Lobsters,
+      url: "https://example.com/post",
+      sourceUrl: "https://lobste.rs/s/abc",
+    });
+    expect(getExternalUrl(lobsters)).toBe("https://example.com/post");
+    expect(getDiscussionUrl(lobsters)).toBe("https://lobste.rs/s/abc");
+
+    const hn = item({ id: "42", url: "https://example.com/post" });
+    expect(getDiscussionUrl(hn)).toBe("https://news.ycombinator.com/item?id=42");
+  });
+
+  it("should return null for self posts", () => {
+    const askHn = item({ id: "42", url: "https://news.ycombinator.com/item?id=42" });
+    const redditSelf = item({
+      source: Source.Reddit,
+      url: "https://www.reddit.com/r/programming/comments/abc/title/",
+      sourceUrl: "https://www.reddit.com/r/programming/comments/abc/title/",
+    });
+    const tabNewsText = item({ source: Source.TabNews, sourceUrl: null });
+
+    expect(getExternalUrl(askHn)).toBeNull();
+    expect(getExternalUrl(redditSelf)).toBeNull();
+    expect(getExternalUrl(tabNewsText)).toBeNull();
+  });
+});
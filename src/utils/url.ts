@@ -0,0 +1,180 @@
+import { Source, type NewsItem } from "../types";
+
+// Query params that only identify the campaign/referrer, never the content
+const TRACKING_PARAMS = new Set([
+  "fbclid",
+  "gclid",
+  "dclid",
+  "msclkid",
+  "yclid",
+  "igshid",
+  "mc_cid",
+  "mc_eid",
+  "mkt_tok",
+  "_hsenc",
+  "_hsmi",
+  "ref",
+  "ref_src",
+  "ref_url",
+  "referrer",
+  "si",
+]);
+
+// Host prefixes that serve the same content as the bare host
+const HOST_PREFIXES = ["www.", "m.", "mobile.", "amp."];
+
+const HOST_ALIASES: Record<string, string> = {
+  "x.com": "twitter.com",
+  "old.reddit.com": "reddit.com",
+  "new.reddit.com": "reddit.com",
+  "np.reddit.com": "reddit.com",
+};
+
+// Hosts of the discussion pages of each source (as opposed to the story link)
+const SOURCE_HOSTS: Partial<Record<Source, string[]>> = {
+  [Source.TabNews]: ["tabnews.com.br"],
+  [Source.HackerNews]: ["news.ycombinator.com"],
+  [Source.DevTo]: ["dev.to"],
+  [Source.Lobsters]: ["lobste.rs"],
+  [Source.Twitter]: ["twitter.com"],
+  [Source.Reddit]: ["reddit.com", "redd.it"],
+};
+
+/**
+ * Unwraps known redirectors (out.reddit.com, l.facebook.com, google.com/url, ...)
+ * @returns The target URL, or null when the URL is not a redirect
+ */
+function unwrapRedirect(url: URL): string | null {
+  const host = url.hostname.replace(/^www\./, "");
+
+  if (host === "out.reddit.com") return url.searchParams.get("url");
+  if (host === "l.facebook.com" || host === "lm.facebook.com") {
+    return url.searchParams.get("u");
+  }
+  if (host === "google.com" && url.pathname === "/url") {
+    return url.searchParams.get("q") || url.searchParams.get("url");
+  }
+  if (host === "t.umblr.com") return url.searchParams.get("z");
+  if (host === "href.li") return decodeURIComponent(url.search.slice(1)) || null;
+
+  return null;
+}
+
+function normalizeHost(hostname: string): string {
+  let host = hostname.toLowerCase().replace(/\.$/, "");
+
+  for (const prefix of HOST_PREFIXES) {
+    if (host.startsWith(prefix) && host.split(".").length > 2) {
+      host = host.slice(prefix.length);
+      break;
+    }
+  }
+
+  return HOST_ALIASES[host] ?? host;
+}
+
+/**
+ * Canonical form of a URL, used to detect the same story across sources:
+ * https, lowercase host without www/m., no tracking params, fragment,
+ * default port or trailing slash, sorted query, redirectors unwrapped.
+ * @returns The canonical URL, or null when the URL cannot be parsed
+ */
+export function canonicalizeUrl(rawUrl: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(rawUrl.trim());
+  } catch {
+    return null;
+  }
+
+  if (url.protocol !== "http:" && url.protocol !== "https:") return null;
+
+  // Redirect chains are short; the bound guards against loops
+  for (let i = 0; i < 3; i++) {
+    const target = unwrapRedirect(url);
+    if (!target) break;
+    try {
+      url = new URL(target);
+    } catch {
+      return null;
+    }
+  }
+
+  let host = normalizeHost(url.hostname);
+  let path = url.pathname;
+  const params = new URLSearchParams(url.search);
+
+  // youtu.be/<id> is youtube.com/watch?v=<id>
+  if (host === "youtu.be" && path.length > 1) {
+    params.set("v", path.slice(1));
+    host = "youtube.com";
+    path = "/watch";
+  }
+
+  path = path
+    .replace(/\/{2,}/g, "/")
+    .replace(/\/index\.html?$/i, "/")
+    .replace(/\/+$/, "");
+
+  const query = [...params.entries()]
+    .filter(([key]) => !key.startsWith("utm_") && !TRACKING_PARAMS.has(key.toLowerCase()))
+    .sort(([a], [b]) => a.localeCompare(b));
+  const search =
+    query.length > 0 ? `?${new URLSearchParams(query).toString()}` : "";
+
+  return `https://${host}${path}${search}`;
+}
+
+/**
+ * Site a URL points to (canonical host, e.g. "github.com")
+ * @returns null when the URL cannot be parsed
+ */
+export function getDomain(rawUrl: string): string | null {
+  const canonical = canonicalizeUrl(rawUrl);
+  return canonical ? new URL(canonical).hostname : null;
+}
+
+function isSourceHost(source: Source, rawUrl: string): boolean {
+  const hosts = SOURCE_HOSTS[source];
+  if (!hosts) return false;
+
+  try {
+    const host = normalizeHost(new URL(rawUrl).hostname);
+    return hosts.some((h) => host === h || host.endsWith(`.${h}`));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Link the item points to, outside of its source
+ * (null for self posts: Ask HN, TabNews text posts, Reddit self posts, ...)
+ */
+export function getExternalUrl(item: NewsItem): string | null {
+  const candidates = [item.url, item.sourceUrl].filter(
+    (url): url is string => !!url
+  );
+  return candidates.find((url) => !isSourceHost(item.source, url)) ?? null;
+}
+
+/**
+ * Page where the item is discussed on its source
+ */
+export function getDiscussionUrl(item: NewsItem): string | null {
+  switch (item.source) {
+    case Source.HackerNews:
+      return `https://news.ycombinator.com/item?id=${item.id}`;
+    case Source.TabNews:
+      return item.owner_username && item.slug
+        ? `https://www.tabnews.com.br/${item.owner_username}/${item.slug}`
+        : null;
+    default:
+      return (
+        [item.sourceUrl, item.url].find(
+          (url): url is string => !!url && isSourceHost(item.source, url)
+        ) ??
+        item.url ??
+        null
+      );
+  }
+}